@@ -0,0 +1,59 @@
+import { jest } from '@jest/globals';
+
+const resolveWith = (data: unknown) => jest.fn(() => Promise.resolve({ data }));
+
+const rejectWithStatus = (status: number) =>
+  jest.fn<() => Promise<{ data: unknown }>>(() =>
+    Promise.reject(Object.assign(new Error(`Request failed with the status ${status}`), { status })),
+  );
+
+/**
+ * The endpoints of the GitHub API the flows call, answering as if the pull request had no comments,
+ * commits or deployments yet, and the config file didn't exist at any other commit.
+ */
+export const octokit = {
+  hook: { wrap: jest.fn() },
+  paginate: jest.fn<() => Promise<unknown[]>>(() => Promise.resolve([])),
+  rest: {
+    checks: { create: resolveWith({ id: 1 }), update: resolveWith({}) },
+    issues: {
+      listComments: resolveWith([]),
+      createComment: resolveWith({}),
+      updateComment: resolveWith({}),
+      deleteComment: resolveWith({}),
+    },
+    pulls: {
+      get: resolveWith({
+        number: 12,
+        head: { sha: 'head-sha', repo: { full_name: 'wundergraph/cosmo-previews' } },
+        base: { sha: 'base-sha', repo: { full_name: 'wundergraph/cosmo-previews' } },
+      }),
+      listCommits: resolveWith([]),
+    },
+    reactions: { createForIssueComment: resolveWith({}) },
+    repos: {
+      createDeployment: resolveWith({ id: 1 }),
+      createDeploymentStatus: resolveWith({}),
+      getCollaboratorPermissionLevel: resolveWith({ permission: 'write' }),
+      getContent: rejectWithStatus(404),
+      listDeployments: resolveWith([]),
+    },
+    users: { getAuthenticated: resolveWith({ login: 'github-actions[bot]' }) },
+  },
+};
+
+export const getOctokit = jest.fn(() => octokit);
+
+export const context = {
+  eventName: 'pull_request',
+  sha: 'merge-sha',
+  ref: 'refs/pull/12/merge',
+  runId: 1,
+  serverUrl: 'https://github.com',
+  repo: { owner: 'wundergraph', repo: 'cosmo-previews' },
+  issue: { owner: 'wundergraph', repo: 'cosmo-previews', number: 12 },
+  payload: {
+    action: 'synchronize',
+    pull_request: { number: 12, head: { sha: 'head-sha', ref: 'feature' }, base: { sha: 'base-sha', ref: 'main' } },
+  },
+};
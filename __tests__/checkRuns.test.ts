@@ -0,0 +1,142 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import type { Context } from '@actions/github/lib/context.js';
+import { jest } from '@jest/globals';
+import { join } from 'pathe';
+import * as core from '../__fixtures__/core.js';
+import * as github from '../__fixtures__/github.js';
+
+jest.unstable_mockModule('@actions/core', () => core);
+jest.unstable_mockModule('@actions/github', () => github);
+
+const { findSchemaLocation, publishCheckRuns } = await import('../src/checkRuns.js');
+
+const context = github.context as unknown as Context;
+
+const cwd = process.cwd();
+let directory: string;
+
+// the schema files are written to a temporary directory, the root of the repository in the tests
+beforeAll(() => {
+  directory = mkdtempSync(join(tmpdir(), 'cosmo-previews-'));
+  process.chdir(directory);
+});
+
+afterAll(() => {
+  process.chdir(cwd);
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe('findSchemaLocation', () => {
+  beforeAll(() => {
+    writeFileSync(
+      'products.graphql',
+      ['type Query {', '  products: [Product!]!', '}', '', 'type Product @key(fields: "id") {', '  id: ID!', '}'].join(
+        '\n',
+      ),
+    );
+    writeFileSync(
+      'reviews.graphql',
+      [
+        'extend type Product {',
+        '  id: ID! @external',
+        '  reviews(first: Int): [Review!]!',
+        '}',
+        '',
+        'type Review {',
+        '  body: String',
+        '}',
+      ].join('\n'),
+    );
+  });
+
+  const files = ['products.graphql', 'reviews.graphql'];
+
+  it('locates a field given as Type.field in every definition of its type', () => {
+    expect(findSchemaLocation({ files, message: 'The field "Product.reviews" is invalid.' })).toEqual({
+      path: 'reviews.graphql',
+      line: 3,
+    });
+    expect(findSchemaLocation({ files, message: 'The field "Query.products" is invalid.' })).toEqual({
+      path: 'products.graphql',
+      line: 2,
+    });
+  });
+
+  it('locates a field given by its name and the name of its type', () => {
+    expect(
+      findSchemaLocation({ files, message: 'The field "body" of the type "Review" must be non-nullable.' }),
+    ).toEqual({ path: 'reviews.graphql', line: 7 });
+  });
+
+  it('falls back to the definition of the type', () => {
+    expect(findSchemaLocation({ files, message: 'The field "Product.price" could not be resolved.' })).toEqual({
+      path: 'products.graphql',
+      line: 5,
+    });
+    expect(findSchemaLocation({ files, message: 'The type "Review" is defined twice.' })).toEqual({
+      path: 'reviews.graphql',
+      line: 6,
+    });
+  });
+
+  it('returns undefined if none of the names are defined in the files', () => {
+    expect(findSchemaLocation({ files, message: 'The type "User" is unknown.' })).toBeUndefined();
+    expect(
+      findSchemaLocation({ files: ['missing.graphql'], message: 'The type "Product" is unknown.' }),
+    ).toBeUndefined();
+  });
+});
+
+describe('publishCheckRuns', () => {
+  it('adds the annotations beyond the limit of a request in batches', async () => {
+    const typeNames = Array.from({ length: 120 }, (_, index) => `Type${index}`);
+    writeFileSync('products.graphql', typeNames.map((typeName) => `type ${typeName} { id: ID }`).join('\n'));
+
+    await publishCheckRuns({
+      githubToken: 'token',
+      context,
+      deployedFeatureFlags: [],
+      featureFlagErrorOutputs: {
+        'preview-12': {
+          status: 'error',
+          message: 'Failed to compose the feature flag.',
+          compositionErrors: typeNames.map((typeName) => ({
+            federatedGraphName: 'shop',
+            namespace: 'default',
+            featureFlag: 'preview-12',
+            message: `The type "${typeName}" is invalid.`,
+          })),
+          deploymentErrors: [],
+        },
+      },
+      featureSubgraphsByFlag: {
+        'preview-12': [
+          {
+            featureSubgraphName: 'products-default-12',
+            baseSubgraphName: 'products',
+            schemaPath: 'products.graphql',
+            routingUrl: 'http://products',
+          },
+        ],
+      },
+      subgraphs: [
+        { name: 'products', schemaPaths: ['products.graphql'], watchPaths: [], routingUrl: 'http://products' },
+      ],
+    });
+
+    type CheckRunParams = { name?: string; check_run_id?: number; output: { annotations: { start_line: number }[] } };
+    const getLines = ([params]: [CheckRunParams]) =>
+      params.output.annotations.map((annotation) => annotation.start_line);
+    const createCalls = github.octokit.rest.checks.create.mock.calls as unknown as [CheckRunParams][];
+    const updateCalls = github.octokit.rest.checks.update.mock.calls as unknown as [CheckRunParams][];
+
+    const featureFlagCheckRun = createCalls.find(([params]) => params.name === 'Cosmo preview: preview-12')!;
+    expect(getLines(featureFlagCheckRun)).toEqual(Array.from({ length: 50 }, (_, index) => index + 1));
+    expect(updateCalls.map(([params]) => params.check_run_id)).toEqual([1, 1]);
+    expect(updateCalls.map((call) => getLines(call))).toEqual([
+      Array.from({ length: 50 }, (_, index) => index + 51),
+      Array.from({ length: 20 }, (_, index) => index + 101),
+    ]);
+  });
+});
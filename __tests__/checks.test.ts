@@ -0,0 +1,102 @@
+import { parseCheckOutput } from '../src/checks.js';
+
+const failedCheckOutput = `
+Checking the proposed schema for subgraph products.
+┌────────────────┬──────────────────────┬──────────────────────────────┐
+│ CHANGE         │ TYPE                 │ DESCRIPTION                  │
+├────────────────┼──────────────────────┼──────────────────────────────┤
+│ ✗ BREAKING     │ FIELD_REMOVED        │ Field 'price' was removed    │
+│                │                      │ from object type 'Product'   │
+├────────────────┼──────────────────────┼──────────────────────────────┤
+│ ✔ NON-BREAKING │ FIELD_ADDED          │ Field 'name' was added to    │
+│                │                      │ object type 'Product'        │
+└────────────────┴──────────────────────┴──────────────────────────────┘
+
+┌────────────┬───────────┬───────────────────────────────────────┐
+│ GRAPH_NAME │ NAMESPACE │ ERROR_MESSAGE                         │
+├────────────┼───────────┼───────────────────────────────────────┤
+│ shop       │ default   │ The field 'price' could not be        │
+│            │           │ resolved.                             │
+└────────────┴───────────┴───────────────────────────────────────┘
+
+┌──────────────────────┬──────────────────────────┬─────────────┐
+│ LINT_RULE            │ ERROR_MESSAGE            │ LINE NUMBER │
+├──────────────────────┼──────────────────────────┼─────────────┤
+│ ✖ FIELD_NAMES_SHOULD │ Field names should use   │ 3           │
+│ _BE_CAMEL_CASE       │ camelCase.               │             │
+├──────────────────────┼──────────────────────────┼─────────────┤
+│ ⚠ ORDER_FIELDS       │ Fields should be sorted. │ 0           │
+└──────────────────────┴──────────────────────────┴─────────────┘
+
+✖ Schema check failed.
+
+Open in studio: https://cosmo.wundergraph.com/checks/1
+`;
+
+describe('parseCheckOutput', () => {
+  it('reads the breaking changes, composition errors and lint issues from the tables', () => {
+    expect(parseCheckOutput({ subgraphName: 'products', exitCode: 1, output: failedCheckOutput })).toEqual({
+      subgraphName: 'products',
+      success: false,
+      message: 'Schema check failed.',
+      url: 'https://cosmo.wundergraph.com/checks/1',
+      breakingChanges: [
+        {
+          changeType: 'FIELD_REMOVED',
+          message: "Field 'price' was removed from object type 'Product'",
+          isBreaking: true,
+        },
+      ],
+      compositionErrors: [
+        {
+          federatedGraphName: 'shop',
+          namespace: 'default',
+          message: "The field 'price' could not be resolved.",
+          featureFlag: '',
+        },
+      ],
+      lintErrors: [
+        {
+          lintRuleType: 'FIELD_NAMES_SHOULD_BE_CAMEL_CASE',
+          severity: 1,
+          message: 'Field names should use camelCase.',
+          issueLocation: { line: 3 },
+        },
+      ],
+      lintWarnings: [
+        { lintRuleType: 'ORDER_FIELDS', severity: 0, message: 'Fields should be sorted.', issueLocation: undefined },
+      ],
+    });
+  });
+
+  it('passes a check without changes', () => {
+    expect(
+      parseCheckOutput({
+        subgraphName: 'products',
+        exitCode: 0,
+        output: 'Detected no changes.\n\n✔ Schema check passed.',
+      }),
+    ).toEqual(
+      expect.objectContaining({ success: true, message: 'Detected no changes.', breakingChanges: [], lintErrors: [] }),
+    );
+  });
+
+  it('uses the details of a check which failed early as its message', () => {
+    const output = [
+      'Check has failed early because the schema could not be built.',
+      'Syntax Error: Unexpected Name "typ".',
+      '',
+      '✖ Schema check failed.',
+    ].join('\n');
+
+    expect(parseCheckOutput({ subgraphName: 'products', exitCode: 1, output })?.message).toBe(
+      'Check has failed early because the schema could not be built. Syntax Error: Unexpected Name "typ".',
+    );
+  });
+
+  it('returns undefined if the output is not the one of a check', () => {
+    expect(
+      parseCheckOutput({ subgraphName: 'products', exitCode: 1, output: 'error: Could not find subgraph products' }),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,136 @@
+import type { Context } from '@actions/github/lib/context.js';
+import { jest } from '@jest/globals';
+import * as core from '../__fixtures__/core.js';
+import * as github from '../__fixtures__/github.js';
+
+jest.unstable_mockModule('@actions/core', () => core);
+jest.unstable_mockModule('@actions/github', () => github);
+
+const { acceptCommand, parseCommand } = await import('../src/commands.js');
+const { getInputs } = await import('../src/inputs.js');
+
+const context = github.context as unknown as Context;
+const pullRequestContext = structuredClone(github.context);
+
+const commentOn = ({ body, action = 'created' }: { body: string; action?: string }) => {
+  Object.assign(github.context, {
+    eventName: 'issue_comment',
+    payload: {
+      action,
+      issue: { number: 12, pull_request: {} },
+      comment: { id: 1, body, user: { login: 'octocat' } },
+    },
+  });
+};
+
+describe('parseCommand', () => {
+  it('parses the first line with a command', () => {
+    expect(parseCommand('Looks good.\n  /cosmo-preview disable preview  \n/cosmo-preview destroy')).toEqual({
+      command: { name: 'disable', featureFlag: 'preview' },
+    });
+    expect(parseCommand('/cosmo-preview redeploy')).toEqual({ command: { name: 'redeploy' } });
+  });
+
+  it('ignores comments without a command', () => {
+    expect(parseCommand('Please run /cosmo-preview redeploy')).toBeUndefined();
+    expect(parseCommand('/cosmo-previews redeploy')).toBeUndefined();
+  });
+
+  it('rejects unknown commands and extra arguments', () => {
+    expect(parseCommand('/cosmo-preview')).toEqual({
+      error: expect.stringContaining("Unknown command '/cosmo-preview'"),
+    });
+    // the own keys of the commands are matched, not the ones of every object
+    expect(parseCommand('/cosmo-preview toString')).toEqual({ error: expect.stringContaining('Unknown command') });
+    expect(parseCommand('/cosmo-preview destroy preview')).toEqual({
+      error: expect.stringContaining('Too many arguments'),
+    });
+    expect(parseCommand('/cosmo-preview enable a b')).toEqual({ error: expect.stringContaining('Too many arguments') });
+  });
+});
+
+describe('acceptCommand', () => {
+  beforeEach(() => commentOn({ body: '/cosmo-preview redeploy' }));
+
+  afterEach(() => {
+    Object.assign(github.context, structuredClone(pullRequestContext));
+  });
+
+  it('accepts the command of a user with write access and fetches the pull request', async () => {
+    await expect(acceptCommand({ githubToken: 'token', context })).resolves.toBe(true);
+
+    expect(github.octokit.rest.reactions.createForIssueComment).toHaveBeenCalledWith(
+      expect.objectContaining({ comment_id: 1, content: 'eyes' }),
+    );
+    expect(context.payload.pull_request).toEqual(expect.objectContaining({ number: 12 }));
+  });
+
+  it('rejects the command of a user without write access', async () => {
+    github.octokit.rest.repos.getCollaboratorPermissionLevel.mockResolvedValueOnce({ data: { permission: 'read' } });
+
+    await expect(acceptCommand({ githubToken: 'token', context })).resolves.toBe(false);
+
+    expect(github.octokit.rest.issues.createComment).toHaveBeenCalledWith(
+      expect.objectContaining({ body: expect.stringContaining('only users with write access') }),
+    );
+    expect(github.octokit.rest.pulls.get).not.toHaveBeenCalled();
+  });
+
+  it('rejects the command on a pull request from a fork', async () => {
+    github.octokit.rest.pulls.get.mockResolvedValueOnce({
+      data: {
+        number: 12,
+        head: { repo: { full_name: 'octocat/cosmo-previews' } },
+        base: { repo: { full_name: 'wundergraph/cosmo-previews' } },
+      },
+    });
+
+    await expect(acceptCommand({ githubToken: 'token', context })).resolves.toBe(false);
+
+    expect(github.octokit.rest.issues.createComment).toHaveBeenCalledWith(
+      expect.objectContaining({ body: expect.stringContaining("can't be run on pull requests from forks") }),
+    );
+    expect(github.octokit.rest.reactions.createForIssueComment).not.toHaveBeenCalledWith(
+      expect.objectContaining({ content: 'eyes' }),
+    );
+  });
+});
+
+describe('getInputs of a comment', () => {
+  beforeEach(() => {
+    const inputs: Record<string, string> = {
+      cosmo_api_key: 'api-key',
+      github_token: 'token',
+      auto: 'true',
+      studio_url: 'https://cosmo.wundergraph.com',
+      // the config doesn't exist, reading it fails the run
+      config_path: 'missing/cosmo.yaml',
+    };
+    core.getInput.mockImplementation((name) => inputs[name] ?? '');
+  });
+
+  afterEach(() => {
+    Object.assign(github.context, structuredClone(pullRequestContext));
+  });
+
+  it('ignores edited comments', async () => {
+    commentOn({ body: '/cosmo-preview destroy', action: 'edited' });
+
+    await expect(getInputs()).resolves.toBeUndefined();
+    expect(github.octokit.rest.repos.getCollaboratorPermissionLevel).not.toHaveBeenCalled();
+  });
+
+  it('checks the permission of the author before reading the config', async () => {
+    commentOn({ body: '/cosmo-preview destroy' });
+    github.octokit.rest.repos.getCollaboratorPermissionLevel.mockResolvedValueOnce({ data: { permission: 'read' } });
+
+    await expect(getInputs()).resolves.toBeUndefined();
+  });
+
+  it('reads the config once the command is accepted', async () => {
+    commentOn({ body: '/cosmo-preview destroy' });
+
+    await expect(getInputs()).rejects.toThrow('does not exist');
+    expect(github.octokit.rest.repos.getCollaboratorPermissionLevel).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,54 @@
+import { mapWithConcurrency } from '../src/concurrency.js';
+import { sleep } from '../src/retry.js';
+
+describe('mapWithConcurrency', () => {
+  it('returns the results in the order of the items, regardless of the order the calls finish in', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (delayMs, index) => {
+      await sleep(delayMs);
+      return `${index}:${delayMs}`;
+    });
+
+    expect(results).toEqual(['0:30', '1:10', '2:20']);
+  });
+
+  it('runs at most the given number of calls at a time', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await sleep(5);
+      running--;
+    });
+
+    expect(maxRunning).toBe(2);
+  });
+
+  it('runs the calls one by one for a concurrency below one', async () => {
+    const order: string[] = [];
+
+    await mapWithConcurrency(['a', 'b'], 0, async (item) => {
+      order.push(`start ${item}`);
+      await sleep(1);
+      order.push(`end ${item}`);
+    });
+
+    expect(order).toEqual(['start a', 'end a', 'start b', 'end b']);
+  });
+
+  it('throws the first error and starts no further calls', async () => {
+    const started: number[] = [];
+
+    await expect(
+      mapWithConcurrency([1, 2, 3, 4], 1, async (item) => {
+        started.push(item);
+        if (item === 2) {
+          throw new Error('failed');
+        }
+        await sleep(1);
+      }),
+    ).rejects.toThrow('failed');
+    expect(started).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,176 @@
+import { getActionTypeOfEvent, getTriggerLabelSkipReason } from '../src/events.js';
+
+describe('getActionTypeOfEvent', () => {
+  const pullRequest = { number: 12, draft: false };
+
+  it('infers the action type from the action of the pull request event', () => {
+    const actionTypes = ['opened', 'reopened', 'ready_for_review', 'synchronize', 'edited', 'closed'].map((action) =>
+      getActionTypeOfEvent({
+        eventName: 'pull_request',
+        payload: { action, pull_request: pullRequest },
+        draftPullRequests: 'skip',
+      }),
+    );
+
+    expect(actionTypes).toEqual([
+      { actionType: 'create' },
+      { actionType: 'create' },
+      { actionType: 'create' },
+      { actionType: 'update' },
+      { actionType: 'update' },
+      { actionType: 'destroy' },
+    ]);
+    expect(
+      getActionTypeOfEvent({
+        eventName: 'pull_request_target',
+        payload: { action: 'opened', pull_request: pullRequest },
+        draftPullRequests: 'skip',
+      }),
+    ).toEqual({ actionType: 'create' });
+  });
+
+  it('skips other events and actions', () => {
+    expect(getActionTypeOfEvent({ eventName: 'push', payload: {}, draftPullRequests: 'skip' })).toEqual({
+      reason: "the event 'push' is not a pull request event",
+    });
+    expect(
+      getActionTypeOfEvent({
+        eventName: 'pull_request',
+        payload: { action: 'assigned', pull_request: pullRequest },
+        draftPullRequests: 'skip',
+      }),
+    ).toEqual({ reason: "the pull request action 'assigned' doesn't affect the previews" });
+  });
+
+  it('skips drafts until they are ready for review, but destroys their previews', () => {
+    const draft = { ...pullRequest, draft: true };
+
+    expect(
+      getActionTypeOfEvent({
+        eventName: 'pull_request',
+        payload: { action: 'synchronize', pull_request: draft },
+        draftPullRequests: 'skip',
+      }),
+    ).toEqual({ reason: 'the pull request is a draft, it is previewed once it is ready for review' });
+    expect(
+      getActionTypeOfEvent({
+        eventName: 'pull_request',
+        payload: { action: 'converted_to_draft', pull_request: draft },
+        draftPullRequests: 'skip',
+      }),
+    ).toEqual({ actionType: 'destroy' });
+    expect(
+      getActionTypeOfEvent({
+        eventName: 'pull_request',
+        payload: { action: 'closed', pull_request: draft },
+        draftPullRequests: 'skip',
+      }),
+    ).toEqual({ actionType: 'destroy' });
+  });
+
+  it('previews drafts like any other pull request if they are included', () => {
+    const draft = { ...pullRequest, draft: true };
+
+    expect(
+      getActionTypeOfEvent({
+        eventName: 'pull_request',
+        payload: { action: 'opened', pull_request: draft },
+        draftPullRequests: 'include',
+      }),
+    ).toEqual({ actionType: 'create' });
+    expect(
+      getActionTypeOfEvent({
+        eventName: 'pull_request',
+        payload: { action: 'converted_to_draft', pull_request: draft },
+        draftPullRequests: 'include',
+      }),
+    ).toEqual({ reason: 'draft pull requests are previewed as well, so the preview is kept' });
+  });
+});
+
+describe('getActionTypeOfEvent with a trigger label', () => {
+  it('creates the previews when a label is added and destroys them when it is removed', () => {
+    const payload = { pull_request: { number: 12, draft: false }, label: { name: 'preview' } };
+
+    expect(
+      getActionTypeOfEvent({
+        eventName: 'pull_request',
+        payload: { ...payload, action: 'labeled' },
+        draftPullRequests: 'skip',
+        triggerLabel: 'preview',
+      }),
+    ).toEqual({ actionType: 'create' });
+    expect(
+      getActionTypeOfEvent({
+        eventName: 'pull_request',
+        payload: { ...payload, action: 'unlabeled' },
+        draftPullRequests: 'skip',
+        triggerLabel: 'preview',
+      }),
+    ).toEqual({ actionType: 'destroy' });
+    expect(
+      getActionTypeOfEvent({
+        eventName: 'pull_request',
+        payload: { ...payload, action: 'labeled' },
+        draftPullRequests: 'skip',
+      }),
+    ).toEqual({ reason: "the pull request action 'labeled' doesn't affect the previews" });
+  });
+});
+
+describe('getTriggerLabelSkipReason', () => {
+  const pullRequest = { number: 12, labels: [{ name: 'preview' }] };
+
+  it('never skips without a trigger label', () => {
+    expect(
+      getTriggerLabelSkipReason({
+        payload: { action: 'synchronize', pull_request: { number: 12 } },
+        actionType: 'update',
+      }),
+    ).toBeUndefined();
+  });
+
+  it('skips the events of other labels', () => {
+    expect(
+      getTriggerLabelSkipReason({
+        payload: { action: 'unlabeled', pull_request: pullRequest, label: { name: 'bug' } },
+        actionType: 'destroy',
+        triggerLabel: 'preview',
+      }),
+    ).toBe("the label 'bug' is not the trigger label 'preview'");
+    expect(
+      getTriggerLabelSkipReason({
+        payload: { action: 'labeled', pull_request: pullRequest, label: { name: 'preview' } },
+        actionType: 'create',
+        triggerLabel: 'preview',
+      }),
+    ).toBeUndefined();
+  });
+
+  it('only creates and updates the previews of pull requests with the trigger label', () => {
+    const withoutLabel = { ...pullRequest, labels: [{ name: 'bug' }] };
+
+    expect(
+      getTriggerLabelSkipReason({
+        payload: { action: 'synchronize', pull_request: withoutLabel },
+        actionType: 'update',
+        triggerLabel: 'preview',
+      }),
+    ).toBe("the pull request doesn't have the trigger label 'preview'");
+    expect(
+      getTriggerLabelSkipReason({
+        payload: { action: 'synchronize', pull_request: pullRequest },
+        actionType: 'update',
+        triggerLabel: 'preview',
+      }),
+    ).toBeUndefined();
+    // the previews of a closed pull request are destroyed, whether it has the label or not
+    expect(
+      getTriggerLabelSkipReason({
+        payload: { action: 'closed', pull_request: withoutLabel },
+        actionType: 'destroy',
+        triggerLabel: 'preview',
+      }),
+    ).toBeUndefined();
+  });
+});
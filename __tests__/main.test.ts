@@ -0,0 +1,315 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import type { Context } from '@actions/github/lib/context.js';
+import { jest } from '@jest/globals';
+import { join } from 'pathe';
+import * as core from '../__fixtures__/core.js';
+import * as github from '../__fixtures__/github.js';
+import type { Inputs, Plan } from '../src/types.js';
+
+jest.unstable_mockModule('@actions/core', () => core);
+jest.unstable_mockModule('@actions/github', () => github);
+
+const { create, destroy, update } = await import('../src/main.js');
+const { createInMemoryCosmoClient } = await import('../src/inMemoryCosmoClient.js');
+const { createRunReport } = await import('../src/summary.js');
+
+const context = github.context as unknown as Context;
+const prNumber = 12;
+
+const getInputs = (overrides: Partial<Inputs> = {}): Inputs => ({
+  actionType: 'create',
+  cosmoApiKey: 'api-key',
+  githubToken: 'token',
+  configPath: '.github/cosmo.yaml',
+  dryRun: false,
+  check: false,
+  blockOnBreakingChanges: false,
+  retry: { retries: 0, delayMs: 0 },
+  maxConcurrency: 2,
+  studioUrl: 'https://cosmo.wundergraph.com',
+  namespace: 'default',
+  featureFlags: [{ name: 'preview', labels: ['team=a'] }],
+  subgraphs: [
+    { name: 'products', schemaPaths: ['products.graphql'], watchPaths: [], routingUrl: 'http://products' },
+    { name: 'reviews', schemaPaths: ['reviews.graphql'], watchPaths: [], routingUrl: 'http://reviews' },
+  ],
+  ...overrides,
+});
+
+const createClient = () =>
+  createInMemoryCosmoClient({
+    subgraphs: [
+      { name: 'products', namespace: 'default', routingURL: 'http://products', labels: [], isFeatureSubgraph: false },
+      { name: 'reviews', namespace: 'default', routingURL: 'http://reviews', labels: [], isFeatureSubgraph: false },
+    ],
+  });
+
+const runCreate = async ({
+  cosmoClient,
+  changedGraphQLFiles,
+  inputs = getInputs(),
+}: {
+  cosmoClient: ReturnType<typeof createClient>;
+  changedGraphQLFiles: string[];
+  inputs?: Inputs;
+}) => {
+  const report = createRunReport({ actionType: 'create', dryRun: inputs.dryRun });
+  const plan: Plan | undefined = inputs.dryRun
+    ? { actionType: inputs.actionType, changedFiles: [], steps: [] }
+    : undefined;
+  await create({
+    inputs,
+    cosmoClient,
+    prNumber,
+    changedGraphQLFiles,
+    context,
+    organizationSlug: 'organization',
+    report,
+    plan,
+  });
+  return { report, plan };
+};
+
+describe('the preview flows', () => {
+  const cwd = process.cwd();
+  let directory: string;
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), 'cosmo-previews-'));
+    writeFileSync(join(directory, 'products.graphql'), 'type Query { products: [String] }');
+    writeFileSync(join(directory, 'reviews.graphql'), 'type Query { reviews: [String] }');
+    process.chdir(directory);
+  });
+
+  afterAll(() => {
+    process.chdir(cwd);
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('creates an enabled feature flag with the feature subgraphs of the changed subgraphs', async () => {
+    const cosmoClient = createClient();
+
+    const { report } = await runCreate({ cosmoClient, changedGraphQLFiles: ['products.graphql'] });
+
+    expect(cosmoClient.state.subgraphs).toContainEqual(
+      expect.objectContaining({
+        name: 'products-default-12',
+        baseSubgraphName: 'products',
+        isFeatureSubgraph: true,
+      }),
+    );
+    expect(cosmoClient.state.featureFlags).toEqual([
+      expect.objectContaining({ name: 'preview-12', isEnabled: true, featureSubgraphs: ['products-default-12'] }),
+    ]);
+    expect(report.deployedFeatureFlags).toEqual(['preview-12']);
+    expect(github.octokit.rest.issues.createComment).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports the outcomes in the order of the config', async () => {
+    const cosmoClient = createClient();
+
+    const { report } = await runCreate({ cosmoClient, changedGraphQLFiles: ['reviews.graphql', 'products.graphql'] });
+
+    expect(report.outcomes.map((outcome) => `${outcome.operation} ${outcome.name}`)).toEqual([
+      'publish products-default-12',
+      'publish reviews-default-12',
+      'create preview-12',
+    ]);
+    expect(report.featureSubgraphsToDeploy.map((featureSubgraph) => featureSubgraph.featureSubgraphName)).toEqual([
+      'products-default-12',
+      'reviews-default-12',
+    ]);
+  });
+
+  it('updates the feature flag which a previous run created', async () => {
+    const cosmoClient = createClient();
+    await runCreate({ cosmoClient, changedGraphQLFiles: ['products.graphql'] });
+
+    const { report } = await runCreate({ cosmoClient, changedGraphQLFiles: ['products.graphql', 'reviews.graphql'] });
+
+    expect(report.outcomes.at(-1)).toEqual(
+      expect.objectContaining({ operation: 'update', name: 'preview-12', success: true }),
+    );
+    expect(cosmoClient.state.featureFlags).toEqual([
+      expect.objectContaining({ name: 'preview-12', featureSubgraphs: ['products-default-12', 'reviews-default-12'] }),
+    ]);
+  });
+
+  it('does not publish a code-first subgraph whose generated schema is the published one', async () => {
+    const cosmoClient = createClient();
+    // the comments and the formatting of the published schema don't count as changes
+    cosmoClient.state.subgraphs[0].schema = 'type Query {\n  # all products\n  products: [String]\n}\n';
+
+    const { report } = await runCreate({
+      cosmoClient,
+      changedGraphQLFiles: ['products.graphql'],
+      inputs: getInputs({
+        subgraphs: [
+          {
+            name: 'products',
+            schemaPaths: [],
+            watchPaths: ['products.graphql'],
+            schemaCommand: 'cat products.graphql',
+            routingUrl: 'http://products',
+          },
+        ],
+      }),
+    });
+
+    expect(report.unchangedFeatureSubgraphs).toEqual([
+      expect.objectContaining({ featureSubgraphName: 'products-default-12' }),
+    ]);
+    expect(cosmoClient.state.subgraphs.filter((subgraph) => subgraph.isFeatureSubgraph)).toEqual([]);
+  });
+
+  it('only plans the changes in dry run mode', async () => {
+    const cosmoClient = createClient();
+
+    const { plan } = await runCreate({
+      cosmoClient,
+      changedGraphQLFiles: ['products.graphql'],
+      inputs: getInputs({ dryRun: true }),
+    });
+
+    expect(plan?.steps.map((step) => `${step.operation} ${step.name}`)).toEqual([
+      'publish products-default-12',
+      'create preview-12',
+    ]);
+    expect(cosmoClient.state.featureFlags).toEqual([]);
+    expect(cosmoClient.state.subgraphs.filter((subgraph) => subgraph.isFeatureSubgraph)).toEqual([]);
+  });
+
+  it('fails the run and records the outcome if a feature subgraph could not be published', async () => {
+    const cosmoClient = createInMemoryCosmoClient();
+    const report = createRunReport({ actionType: 'create', dryRun: false });
+
+    await expect(
+      create({
+        inputs: getInputs(),
+        cosmoClient,
+        prNumber,
+        changedGraphQLFiles: ['products.graphql'],
+        context,
+        organizationSlug: 'organization',
+        report,
+      }),
+    ).rejects.toThrow("The base subgraph 'products' was not found");
+    expect(report.outcomes).toEqual([
+      expect.objectContaining({ operation: 'publish', name: 'products-default-12', success: false }),
+    ]);
+    expect(cosmoClient.state.featureFlags).toEqual([]);
+  });
+
+  it('adds the feature subgraphs of the subgraphs changed since the last run on update', async () => {
+    const cosmoClient = createClient();
+    await runCreate({ cosmoClient, changedGraphQLFiles: ['products.graphql'] });
+
+    const report = createRunReport({ actionType: 'update', dryRun: false });
+    await update({
+      inputs: getInputs({ actionType: 'update' }),
+      cosmoClient,
+      prNumber,
+      changedGraphQLFiles: ['products.graphql', 'reviews.graphql'],
+      reconciledFeatureSubgraphs: [],
+      context,
+      organizationSlug: 'organization',
+      report,
+    });
+
+    expect(report.deployedFeatureFlags).toEqual(['preview-12']);
+    expect(cosmoClient.state.featureFlags).toEqual([
+      expect.objectContaining({ name: 'preview-12', featureSubgraphs: ['products-default-12', 'reviews-default-12'] }),
+    ]);
+  });
+
+  it('creates the feature flags which do not exist yet enabled on update', async () => {
+    const cosmoClient = createClient();
+
+    const report = createRunReport({ actionType: 'update', dryRun: false });
+    await update({
+      inputs: getInputs({ actionType: 'update' }),
+      cosmoClient,
+      prNumber,
+      changedGraphQLFiles: ['products.graphql'],
+      reconciledFeatureSubgraphs: [],
+      context,
+      organizationSlug: 'organization',
+      report,
+    });
+
+    expect(report.outcomes.at(-1)).toEqual(expect.objectContaining({ operation: 'create', name: 'preview-12' }));
+    expect(cosmoClient.state.featureFlags).toEqual([expect.objectContaining({ name: 'preview-12', isEnabled: true })]);
+  });
+
+  it('destroys only the preview resources of the pull request built from the config', async () => {
+    const cosmoClient = createClient();
+    await runCreate({ cosmoClient, changedGraphQLFiles: ['products.graphql', 'reviews.graphql'] });
+    // a feature flag which ends with the number of the pull request, but isn't one of its previews
+    cosmoClient.state.featureFlags.push({
+      name: 'release-12',
+      namespace: 'default',
+      isEnabled: true,
+      labels: [],
+      featureSubgraphs: [],
+    });
+
+    const report = createRunReport({ actionType: 'destroy', dryRun: false });
+    await destroy({ inputs: getInputs({ actionType: 'destroy' }), cosmoClient, prNumber, context, report });
+
+    expect(cosmoClient.state.featureFlags.map((featureFlag) => featureFlag.name)).toEqual(['release-12']);
+    expect(cosmoClient.state.subgraphs.map((subgraph) => subgraph.name)).toEqual(['products', 'reviews']);
+    expect(report.destroyedFeatureSubgraphs).toEqual([
+      expect.objectContaining({ featureSubgraphName: 'products-default-12', destroyed: true }),
+      expect.objectContaining({ featureSubgraphName: 'reviews-default-12', destroyed: true }),
+    ]);
+  });
+
+  it('destroys the previews of feature flags and subgraphs which were removed from the config', async () => {
+    const cosmoClient = createClient();
+    await runCreate({
+      cosmoClient,
+      changedGraphQLFiles: ['products.graphql', 'reviews.graphql'],
+      inputs: getInputs({
+        featureFlags: [
+          { name: 'preview', labels: [] },
+          { name: 'legacy', labels: [] },
+        ],
+      }),
+    });
+    // the config at the base of the pull request still has the feature flag
+    const previousConfig = [
+      "version: '0.0.1'",
+      'namespace: default',
+      'feature_flags:',
+      '  - name: preview',
+      '    labels: [team=a]',
+      '  - name: legacy',
+      '    labels: [team=b]',
+      'subgraphs:',
+      '  - name: products',
+      '    schema_path: products.graphql',
+      '    routing_url: http://products',
+    ].join('\n');
+    github.octokit.rest.repos.getContent.mockResolvedValueOnce({
+      data: { type: 'file', content: Buffer.from(previousConfig).toString('base64') },
+    });
+
+    const report = createRunReport({ actionType: 'destroy', dryRun: false });
+    await destroy({
+      inputs: getInputs({
+        actionType: 'destroy',
+        featureFlags: [{ name: 'preview', labels: ['team=a'] }],
+        subgraphs: getInputs().subgraphs.filter((subgraph) => subgraph.name === 'products'),
+      }),
+      cosmoClient,
+      prNumber,
+      context,
+      report,
+    });
+
+    expect(github.octokit.rest.repos.getContent).toHaveBeenCalledWith(expect.objectContaining({ ref: 'base-sha' }));
+    expect(cosmoClient.state.featureFlags).toEqual([]);
+    expect(cosmoClient.state.subgraphs.map((subgraph) => subgraph.name)).toEqual(['products', 'reviews']);
+  });
+});
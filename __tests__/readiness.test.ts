@@ -0,0 +1,89 @@
+import { createServer, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { jest } from '@jest/globals';
+import * as core from '../__fixtures__/core.js';
+
+jest.unstable_mockModule('@actions/core', () => core);
+
+const { waitForReadiness } = await import('../src/readiness.js');
+
+describe('waitForReadiness', () => {
+  let server: Server;
+  let routingUrl: string;
+  // the subgraph answers with a 503 until it is ready
+  let ready = false;
+  const requests: { method?: string; url?: string; body: string }[] = [];
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => {
+        requests.push({ method: request.method, url: request.url, body });
+        if (!ready) {
+          response.writeHead(503).end();
+          // the subgraph becomes ready while the action waits
+          ready = requests.length >= 2;
+          return;
+        }
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(request.method === 'GET' ? 'OK' : JSON.stringify({ data: { __typename: 'Query' } }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    routingUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/graphql`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    ready = false;
+    requests.length = 0;
+  });
+
+  it('sends a __typename query until the subgraph responds with data', async () => {
+    await expect(
+      waitForReadiness({ subgraphName: 'products', routingUrl, readiness: { timeoutSeconds: 30 } }),
+    ).resolves.toBe(true);
+
+    expect(requests).toHaveLength(3);
+    expect(requests[0]).toEqual({ method: 'POST', url: '/graphql', body: '{"query":"{ __typename }"}' });
+    expect(core.info).toHaveBeenCalledWith(
+      "The subgraph 'products' is not ready yet, as the subgraph responded with the status 503. Checking again in 1000ms.",
+    );
+    expect(core.info).toHaveBeenCalledWith(
+      "The subgraph 'products' is not ready yet, as the subgraph responded with the status 503. Checking again in 2000ms.",
+    );
+  });
+
+  it('polls the health path relative to the routing URL', async () => {
+    ready = true;
+
+    await expect(
+      waitForReadiness({
+        subgraphName: 'products',
+        routingUrl,
+        readiness: { healthPath: '/health', timeoutSeconds: 30 },
+      }),
+    ).resolves.toBe(true);
+
+    expect(requests).toEqual([{ method: 'GET', url: '/health', body: '' }]);
+  });
+
+  it('gives up with a warning once the timeout is over', async () => {
+    await expect(
+      waitForReadiness({
+        subgraphName: 'products',
+        routingUrl,
+        readiness: { healthPath: '/health', timeoutSeconds: 0.1 },
+      }),
+    ).resolves.toBe(false);
+
+    expect(requests).toHaveLength(2);
+    expect(core.warning).toHaveBeenCalledWith(
+      `The subgraph 'products' did not become ready at ${routingUrl} within 0.1s, as the health check responded with the status 503.`,
+    );
+  });
+});
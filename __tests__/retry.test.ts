@@ -0,0 +1,82 @@
+import { jest } from '@jest/globals';
+import * as core from '../__fixtures__/core.js';
+
+jest.unstable_mockModule('@actions/core', () => core);
+
+const { isRetryableGithubError, isRetryableGithubRequest, withRetry } = await import('../src/retry.js');
+
+const options = { retries: 2, delayMs: 0 };
+
+const requestError = (status: number, message = 'Request failed') =>
+  Object.assign(new Error(message), { status, response: { status } });
+
+describe('withRetry', () => {
+  it('retries a retryable error until the operation succeeds', async () => {
+    const operation = jest
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new Error('socket hang up'))
+      .mockResolvedValueOnce('done');
+
+    await expect(
+      withRetry(operation, { description: 'The operation', isRetryable: () => true, options }),
+    ).resolves.toBe('done');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('throws the last error once the retries are used up', async () => {
+    const operation = jest.fn<() => Promise<string>>().mockRejectedValue(new Error('socket hang up'));
+
+    await expect(
+      withRetry(operation, { description: 'The operation', isRetryable: () => true, options }),
+    ).rejects.toThrow('socket hang up');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('throws a fatal error right away', async () => {
+    const operation = jest.fn<() => Promise<string>>().mockRejectedValue(new Error('invalid schema'));
+
+    await expect(
+      withRetry(operation, { description: 'The operation', isRetryable: () => false, options }),
+    ).rejects.toThrow('invalid schema');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('isRetryableGithubError', () => {
+  it.each([500, 502, 503, 429])('retries the status %d', (status) => {
+    expect(isRetryableGithubError(requestError(status))).toBe(true);
+  });
+
+  it.each([400, 401, 404, 422])('does not retry the status %d', (status) => {
+    expect(isRetryableGithubError(requestError(status))).toBe(false);
+  });
+
+  it('retries the secondary rate limit, but not a missing permission', () => {
+    expect(isRetryableGithubError(requestError(403, 'You have exceeded a secondary rate limit'))).toBe(true);
+    expect(isRetryableGithubError(requestError(403, 'Resource not accessible by integration'))).toBe(false);
+  });
+
+  it('retries errors without a status, e.g. network errors', () => {
+    expect(isRetryableGithubError(new Error('socket hang up'))).toBe(true);
+  });
+});
+
+describe('isRetryableGithubRequest', () => {
+  it('retries idempotent requests on any retryable error', () => {
+    expect(isRetryableGithubRequest({ method: 'GET', error: requestError(502) })).toBe(true);
+    expect(isRetryableGithubRequest({ method: 'PATCH', error: new Error('socket hang up') })).toBe(true);
+    expect(isRetryableGithubRequest({ method: 'DELETE', error: requestError(404) })).toBe(false);
+  });
+
+  it('only retries other requests if GitHub did not process them', () => {
+    expect(isRetryableGithubRequest({ method: 'POST', error: requestError(502) })).toBe(false);
+    expect(isRetryableGithubRequest({ method: 'POST', error: new Error('socket hang up') })).toBe(false);
+    expect(isRetryableGithubRequest({ method: 'POST', error: requestError(429) })).toBe(true);
+    expect(
+      isRetryableGithubRequest({
+        method: 'POST',
+        error: Object.assign(new Error('getaddrinfo EAI_AGAIN api.github.com'), { status: 500 }),
+      }),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,58 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'pathe';
+import { findSchemaFiles, getSchemaFile, toRepositoryPath } from '../src/schemas.js';
+import { Subgraph } from '../src/types.js';
+
+const subgraph = (schemaPaths: string[]): Subgraph => ({
+  name: 'products',
+  schemaPaths,
+  watchPaths: [],
+  routingUrl: 'http://localhost:4001/graphql',
+});
+
+describe('findSchemaFiles', () => {
+  it('returns the sorted and deduplicated files matching the paths and patterns', () => {
+    expect(
+      findSchemaFiles(['subgraphs/products*/*.graphql', 'subgraphs/employees/schema.graphql', 'subgraphs/products/*']),
+    ).toEqual([
+      'subgraphs/employees/schema.graphql',
+      'subgraphs/products/schema.graphql',
+      'subgraphs/products_fs/schema.graphql',
+    ]);
+  });
+
+  it('matches patterns across directories and returns nothing for patterns without matches', () => {
+    expect(findSchemaFiles(['subgraphs/**/schema.graphql'])).toHaveLength(7);
+    expect(findSchemaFiles(['subgraphs/inventory/*.graphql'])).toEqual([]);
+  });
+});
+
+describe('toRepositoryPath', () => {
+  it('makes paths relative to the root of the repository', () => {
+    expect(toRepositoryPath('./subgraphs/products/schema.graphql')).toBe('subgraphs/products/schema.graphql');
+    expect(toRepositoryPath(resolve(process.cwd(), 'subgraphs/products'))).toBe('subgraphs/products');
+  });
+});
+
+describe('getSchemaFile', () => {
+  it('returns the only matching file itself', () => {
+    expect(getSchemaFile(subgraph(['subgraphs/products/*.graphql']))).toBe(
+      resolve(process.cwd(), 'subgraphs/products/schema.graphql'),
+    );
+  });
+
+  it('merges several matching files into one schema, each headed by its path', () => {
+    const schemaFile = getSchemaFile(subgraph(['subgraphs/products*/schema.graphql']));
+
+    const mergedSchema = readFileSync(schemaFile).toString();
+    expect(mergedSchema).toMatch(/^# subgraphs\/products\/schema.graphql\n/);
+    expect(mergedSchema).toContain('\n# subgraphs/products_fs/schema.graphql\n');
+    expect(mergedSchema).toContain(readFileSync('subgraphs/products_fs/schema.graphql').toString().trim());
+  });
+
+  it('throws if no file matches', () => {
+    expect(() => getSchemaFile(subgraph(['subgraphs/inventory/*.graphql']))).toThrow(
+      "No schema files found for the subgraph 'products' at subgraphs/inventory/*.graphql.",
+    );
+  });
+});
@@ -0,0 +1,93 @@
+import { createServer, IncomingHttpHeaders, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { jest } from '@jest/globals';
+import * as core from '../__fixtures__/core.js';
+
+jest.unstable_mockModule('@actions/core', () => core);
+
+const { diffResponses, runSmokeTests } = await import('../src/smokeTests.js');
+
+const retry = { retries: 0, delayMs: 0 };
+
+describe('runSmokeTests', () => {
+  let server: Server;
+  let routerUrl: string;
+  const requests: { headers: IncomingHttpHeaders; body: unknown }[] = [];
+
+  // a stub of the router, answering every operation with the same products
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => {
+        requests.push({ headers: request.headers, body: JSON.parse(body) });
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({ data: { products: [{ name: 'Chair' }] } }));
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    routerUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/graphql`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  it('sends the operations with the header of each feature flag', async () => {
+    const results = await runSmokeTests({
+      routerUrl,
+      featureFlagNames: ['preview-12', 'other-12'],
+      smokeTests: [{ name: 'products', query: '{ products { name } }', variables: { first: 1 } }],
+      retry,
+    });
+
+    expect(results).toEqual([
+      { featureFlagName: 'preview-12', name: 'products', passed: true, diff: [] },
+      { featureFlagName: 'other-12', name: 'products', passed: true, diff: [] },
+    ]);
+    expect(requests.map((request) => request.headers['x-feature-flag'])).toEqual(['preview-12', 'other-12']);
+    expect(requests[0].body).toEqual({ query: '{ products { name } }', variables: { first: 1 } });
+  });
+
+  it('fails a smoke test whose response differs from the expected response', async () => {
+    const results = await runSmokeTests({
+      routerUrl,
+      featureFlagNames: ['preview-12'],
+      smokeTests: [
+        {
+          name: 'products',
+          query: '{ products { name } }',
+          expectedResponse: { data: { products: [{ name: 'Table' }] } },
+        },
+      ],
+      retry,
+    });
+
+    expect(results).toEqual([
+      {
+        featureFlagName: 'preview-12',
+        name: 'products',
+        passed: false,
+        message: 'The response differs from the expected response.',
+        diff: ['data.products[0].name: expected "Table", got "Chair"'],
+      },
+    ]);
+  });
+});
+
+describe('diffResponses', () => {
+  it('returns no differences for equal responses', () => {
+    expect(diffResponses({ data: { ids: [1, 2] } }, { data: { ids: [1, 2] } })).toEqual([]);
+  });
+
+  it('reports missing and additional values', () => {
+    expect(diffResponses({ data: { ids: [1] } }, { data: { ids: [1, 2] }, errors: [] })).toEqual([
+      'data.ids[1]: expected nothing, got 2',
+      'errors: expected nothing, got []',
+    ]);
+  });
+});
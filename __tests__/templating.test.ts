@@ -0,0 +1,70 @@
+/* eslint-disable no-template-curly-in-string -- the routing URL templates use the same placeholders */
+import type { Context } from '@actions/github/lib/context.js';
+import { getTemplateVariables, resolveRoutingUrl, toDnsLabel } from '../src/templating.js';
+
+const variables = {
+  PR_NUMBER: '12',
+  BRANCH: 'feat-my-branch',
+  HEAD_SHA: '0123456789abcdef',
+  SHORT_SHA: '0123456',
+  REPO: 'cosmo-previews',
+  OWNER: 'wundergraph',
+};
+
+describe('resolveRoutingUrl', () => {
+  it('replaces the variables and environment variables of the template', () => {
+    expect(
+      resolveRoutingUrl({
+        template: 'https://${BRANCH}-${SHORT_SHA}.${env.PREVIEW_DOMAIN}/${OWNER}/${REPO}/${PR_NUMBER}?sha=${HEAD_SHA}',
+        variables,
+        env: { PREVIEW_DOMAIN: 'previews.example.com' },
+      }),
+    ).toBe('https://feat-my-branch-0123456.previews.example.com/wundergraph/cosmo-previews/12?sha=0123456789abcdef');
+  });
+
+  it('returns a template without placeholders as it is', () => {
+    expect(resolveRoutingUrl({ template: 'http://localhost:4001/graphql', variables, env: {} })).toBe(
+      'http://localhost:4001/graphql',
+    );
+  });
+
+  it('rejects unknown placeholders and unset environment variables', () => {
+    expect(() =>
+      resolveRoutingUrl({ template: 'https://${pr_number}.${SHA}.example.com', variables, env: {} }),
+    ).toThrow(
+      "Unknown placeholders '${pr_number}', '${SHA}' in the routing URL 'https://${pr_number}.${SHA}.example.com'.",
+    );
+    expect(() => resolveRoutingUrl({ template: 'https://${env.PREVIEW_DOMAIN}', variables, env: {} })).toThrow(
+      "The environment variable 'PREVIEW_DOMAIN' used in the routing URL 'https://${env.PREVIEW_DOMAIN}' is not set.",
+    );
+  });
+
+  it('rejects resolved URLs which are invalid or not http(s)', () => {
+    expect(() => resolveRoutingUrl({ template: '${BRANCH}.example.com', variables, env: {} })).toThrow(
+      "The routing URL 'feat-my-branch.example.com' resolved from '${BRANCH}.example.com' is not a valid URL.",
+    );
+    expect(() => resolveRoutingUrl({ template: 'ws://${BRANCH}.example.com', variables, env: {} })).toThrow(
+      'must use http or https.',
+    );
+  });
+});
+
+describe('getTemplateVariables', () => {
+  it('reads the variables from the pull request', () => {
+    const context = {
+      sha: 'merge-sha',
+      ref: 'refs/pull/12/merge',
+      repo: { owner: 'wundergraph', repo: 'cosmo-previews' },
+      payload: { pull_request: { number: 12, head: { sha: '0123456789abcdef', ref: 'Feat/My_Branch' } } },
+    } as unknown as Context;
+
+    expect(getTemplateVariables({ context, prNumber: 12 })).toEqual(variables);
+  });
+});
+
+describe('toDnsLabel', () => {
+  it('turns a branch name into a DNS label', () => {
+    expect(toDnsLabel('--Feat/My_Branch--')).toBe('feat-my-branch');
+    expect(toDnsLabel('a'.repeat(70))).toHaveLength(63);
+  });
+});
@@ -0,0 +1,102 @@
+import type { Context } from '@actions/github/lib/context.js';
+import { jest } from '@jest/globals';
+import * as core from '../__fixtures__/core.js';
+import * as github from '../__fixtures__/github.js';
+
+jest.unstable_mockModule('@actions/core', () => core);
+jest.unstable_mockModule('@actions/github', () => github);
+
+const { addComment, getLastDeployedSha } = await import('../src/utils.js');
+
+const context = github.context as unknown as Context;
+const bot = { login: 'github-actions[bot]', type: 'Bot' };
+
+const deploy = ({ failed = false }: { failed?: boolean } = {}) =>
+  addComment({
+    githubToken: 'token',
+    prNumber: 12,
+    deployedFeatureFlags: failed ? [] : ['preview-12'],
+    featureSubgraphsByFlag: {},
+    featureFlagErrorOutputs: failed
+      ? {
+          'preview-12': {
+            status: 'error',
+            message: 'Failed to compose the feature flag.',
+            compositionErrors: [],
+            deploymentErrors: [],
+          },
+        }
+      : {},
+    context,
+    organizationSlug: 'wundergraph',
+    namespace: 'default',
+    studioUrl: 'https://cosmo.wundergraph.com',
+  });
+
+const getCommentBody = (mock: typeof github.octokit.rest.issues.createComment) => {
+  const [[params]] = mock.mock.calls as unknown as [{ body: string }][];
+  return params.body;
+};
+
+describe('addComment', () => {
+  it('creates the deployment comment with a marker if the pull request has none', async () => {
+    await deploy();
+
+    expect(github.octokit.rest.issues.updateComment).not.toHaveBeenCalled();
+    const body = getCommentBody(github.octokit.rest.issues.createComment);
+    expect(body).toMatch(/^<!-- cosmo-previews:deployment -->\n/);
+    expect(body).toContain('<!-- cosmo-previews:history [{"sha":"head-sha",');
+    expect(body).not.toContain('History of previous deployments');
+  });
+
+  it('updates the comment of the action in place, keeps the history and deletes duplicates', async () => {
+    await deploy();
+    const body = getCommentBody(github.octokit.rest.issues.createComment);
+    github.octokit.paginate.mockResolvedValueOnce([
+      // a comment of a user who quoted the marker is left alone
+      { id: 3, body, user: { login: 'octocat', type: 'User' } },
+      { id: 4, body, user: bot },
+      { id: 5, body, user: bot },
+    ]);
+
+    await deploy({ failed: true });
+
+    expect(github.octokit.rest.issues.createComment).toHaveBeenCalledTimes(1);
+    expect(github.octokit.rest.issues.updateComment).toHaveBeenCalledWith(expect.objectContaining({ comment_id: 4 }));
+    expect(github.octokit.rest.issues.deleteComment).toHaveBeenCalledTimes(1);
+    expect(github.octokit.rest.issues.deleteComment).toHaveBeenCalledWith(expect.objectContaining({ comment_id: 5 }));
+    const updatedBody = getCommentBody(github.octokit.rest.issues.updateComment);
+    expect(updatedBody).toContain('History of previous deployments (1)');
+    expect(updatedBody).toMatch(/\| head-sh \| .+ \| ✅ 1 deployed \|/);
+  });
+});
+
+describe('getLastDeployedSha', () => {
+  it('returns the commit of the last successful deployment of the history', async () => {
+    await deploy();
+    const deployedBody = getCommentBody(github.octokit.rest.issues.createComment);
+    github.octokit.paginate.mockResolvedValueOnce([{ id: 4, body: deployedBody, user: bot }]);
+    // the next push fails to deploy
+    context.payload.pull_request!.head.sha = 'next-sha';
+    try {
+      await deploy({ failed: true });
+    } finally {
+      context.payload.pull_request!.head.sha = 'head-sha';
+    }
+    const failedBody = getCommentBody(github.octokit.rest.issues.updateComment);
+    expect(failedBody).toContain('"sha":"next-sha"');
+    github.octokit.paginate.mockResolvedValueOnce([{ id: 4, body: failedBody, user: bot }]);
+
+    await expect(getLastDeployedSha({ githubToken: 'token', prNumber: 12, context })).resolves.toBe('head-sha');
+  });
+
+  it('returns undefined if the previews were never deployed', async () => {
+    await expect(getLastDeployedSha({ githubToken: 'token', prNumber: 12, context })).resolves.toBeUndefined();
+
+    await deploy({ failed: true });
+    const failedBody = getCommentBody(github.octokit.rest.issues.createComment);
+    github.octokit.paginate.mockResolvedValueOnce([{ id: 4, body: failedBody, user: bot }]);
+
+    await expect(getLastDeployedSha({ githubToken: 'token', prNumber: 12, context })).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,162 @@
+import { formatConfigIssues, validateConfig } from '../src/validation.js';
+
+const validConfig = `version: 0.0.1
+namespace: staging
+trigger_label: preview
+feature_flags:
+  - name: preview
+    labels:
+      - team=platform
+    subgraphs:
+      - products
+subgraphs:
+  - name: products
+    schema_path: subgraphs/products/*.graphql
+    routing_url: https://products-\${PR_NUMBER}.example.com/graphql
+    readiness:
+      timeout_seconds: 60
+  - name: reviews
+    routing_url: https://reviews.example.com/graphql
+    watch:
+      - subgraphs/reviews/**/*.ts
+    schema_command: npm run print-schema
+`;
+
+describe('validateConfig', () => {
+  it('returns the config without issues', () => {
+    const { config, issues } = validateConfig({ fileContent: validConfig, checkFiles: false });
+
+    expect(issues).toEqual([]);
+    expect(config?.namespace).toBe('staging');
+    expect(config?.subgraphs.map((subgraph) => subgraph.name)).toEqual(['products', 'reviews']);
+  });
+
+  it('reports unknown keys at their position and suggests the known ones', () => {
+    const fileContent = validConfig
+      .replace('trigger_label:', 'triggerLabel:')
+      .replace('    readiness:', '    routingUrl: https://products.example.com\n    readiness:');
+
+    expect(validateConfig({ fileContent, checkFiles: false })).toEqual({
+      issues: [
+        {
+          path: 'triggerLabel',
+          message: "Unknown property 'triggerLabel'. Did you mean 'trigger_label'?",
+          line: 3,
+          column: 1,
+        },
+        {
+          path: 'subgraphs[0].routingUrl',
+          message: "Unknown property 'routingUrl'. Did you mean 'routing_url'?",
+          line: 14,
+          column: 5,
+        },
+      ],
+    });
+  });
+
+  it('reports values of the wrong type at their position', () => {
+    const fileContent = validConfig
+      .replace('version: 0.0.1', 'version: 1.0.0')
+      .replace('      - team=platform', '      - team')
+      .replace('timeout_seconds: 60', 'timeout_seconds: soon')
+      .replace('    watch:\n      - subgraphs/reviews/**/*.ts\n', '    watch: subgraphs/reviews\n');
+
+    expect(validateConfig({ fileContent, checkFiles: false }).issues).toEqual([
+      {
+        path: 'version',
+        message: "Unsupported version '1.0.0'. Supported versions: 0.0.1.",
+        line: 1,
+        column: 1,
+      },
+      {
+        path: 'feature_flags[0].labels[0]',
+        message: "Label 'team' must be in the format <key>=<value>.",
+        line: 7,
+        column: 9,
+      },
+      {
+        path: 'subgraphs[0].readiness.timeout_seconds',
+        message: "'timeout_seconds' must be a positive number.",
+        line: 15,
+        column: 7,
+      },
+      {
+        path: 'subgraphs[1].watch',
+        message: "'watch' is required with 'schema_command' and must be a list of paths or glob patterns.",
+        line: 18,
+        column: 5,
+      },
+    ]);
+  });
+
+  it('reports missing required keys at their parent', () => {
+    const fileContent = validConfig
+      .replace('namespace: staging\n', '')
+      .replace('    routing_url: https://reviews', '    url: https://reviews');
+
+    expect(validateConfig({ fileContent, checkFiles: false }).issues).toEqual([
+      { path: '', message: "'namespace' is required and must be a non-empty string.", line: 1, column: 1 },
+      expect.objectContaining({ path: 'subgraphs[1].url', line: 16, column: 5 }),
+      {
+        path: 'subgraphs[1]',
+        message: "'routing_url' is required and must be a non-empty string.",
+        line: 15,
+        column: 5,
+      },
+    ]);
+  });
+
+  it('reports subgraphs of feature flags which are not defined', () => {
+    const fileContent = validConfig.replace('      - products\n', '      - inventory\n');
+
+    expect(validateConfig({ fileContent, checkFiles: false }).issues).toEqual([
+      {
+        path: 'feature_flags[0].subgraphs[0]',
+        message: "The subgraph 'inventory' is not defined in 'subgraphs'.",
+        line: 9,
+        column: 9,
+      },
+    ]);
+  });
+
+  it('only checks that the schema files exist if asked to', () => {
+    const fileContent = validConfig.replace('subgraphs/products/*.graphql', 'subgraphs/inventory/*.graphql');
+
+    expect(validateConfig({ fileContent, checkFiles: false }).issues).toEqual([]);
+    expect(validateConfig({ fileContent }).issues).toEqual([
+      {
+        path: 'subgraphs[0].schema_path',
+        message: "No schema files match the pattern 'subgraphs/inventory/*.graphql'.",
+        line: 12,
+        column: 5,
+      },
+    ]);
+  });
+
+  it('reports yaml syntax errors at their position', () => {
+    const { config, issues } = validateConfig({ fileContent: 'version: 0.0.1\nnamespace: [staging\n' });
+
+    expect(config).toBeUndefined();
+    expect(issues).toEqual([expect.objectContaining({ path: '', line: 3 })]);
+  });
+});
+
+describe('formatConfigIssues', () => {
+  it('lists every issue with its position', () => {
+    expect(
+      formatConfigIssues({
+        source: '.github/cosmo.yaml',
+        issues: [
+          { path: '', message: "'version' is required.", line: 1, column: 1 },
+          { path: 'subgraphs[0].name', message: "Duplicate subgraph name 'products'.", line: 9, column: 5 },
+        ],
+      }),
+    ).toBe(
+      [
+        "The config file '.github/cosmo.yaml' is invalid:",
+        "  - .github/cosmo.yaml:1:1 'version' is required.",
+        "  - .github/cosmo.yaml:9:5 subgraphs[0].name: Duplicate subgraph name 'products'.",
+      ].join('\n'),
+    );
+  });
+});
@@ -0,0 +1,275 @@
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import * as core from '@actions/core';
+import { Context } from '@actions/github/lib/context.js';
+import { SubgraphCommandJsonOutput } from 'wgc/dist/core/types/types.js';
+import { getOctokit } from './retry.js';
+import { findSchemaFiles } from './schemas.js';
+import { FeatureSubgraphsOutputConfig, RetryOptions, SmokeTestResult, Subgraph, SubgraphCheckResult } from './types.js';
+
+export const overallCheckRunName = 'Cosmo previews';
+
+// a check run accepts at most 50 annotations per request
+const maxAnnotations = 50;
+
+export type SchemaLocation = {
+  path: string;
+  line: number;
+};
+
+type Annotation = {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: 'failure';
+  title: string;
+  message: string;
+};
+
+// the composition errors quote the types and fields they refer to, e.g. "User" or "Query.users"
+const quotedNamePattern = /"([A-Z_a-z]\w*(?:\.[A-Z_a-z]\w*)?)"/g;
+
+const findInLines = (lines: string[], typeName: string, fieldName?: string): number | undefined => {
+  const definitionPattern = new RegExp(
+    String.raw`^\s*(?:extend\s+)?(?:type|interface|input|enum|union|scalar)\s+${typeName}\b`,
+  );
+  const fieldPattern = fieldName ? new RegExp(String.raw`^\s*${fieldName}\s*[(:]`) : undefined;
+
+  for (const [index, line] of lines.entries()) {
+    if (!definitionPattern.test(line)) {
+      continue;
+    }
+    if (!fieldPattern) {
+      return index + 1;
+    }
+    // a type can be extended in several places, so every definition of it is searched for the field
+    for (
+      let fieldIndex = index + 1;
+      fieldIndex < lines.length && !lines[fieldIndex].trim().startsWith('}');
+      fieldIndex++
+    ) {
+      if (fieldPattern.test(lines[fieldIndex])) {
+        return fieldIndex + 1;
+      }
+    }
+  }
+};
+
+/**
+ * Locates the type or field a composition error refers to in the schema files, by the names quoted in its message.
+ * A field is located in the definitions of its type, which is either given as `Type.field` or as another quoted name,
+ * and falls back to the definition of the type. Returns undefined if none of the names are defined in the files.
+ */
+export const findSchemaLocation = ({
+  files,
+  message,
+}: {
+  files: string[];
+  message: string;
+}): SchemaLocation | undefined => {
+  const names = [...message.matchAll(quotedNamePattern)].map((match) => match[1]);
+  const schemas = files.flatMap((path) => {
+    try {
+      return [{ path, lines: readFileSync(resolve(process.cwd(), path)).toString().split('\n') }];
+    } catch {
+      return [];
+    }
+  });
+
+  const find = (typeName: string, fieldName?: string): SchemaLocation | undefined => {
+    for (const schema of schemas) {
+      const line = findInLines(schema.lines, typeName, fieldName);
+      if (line) {
+        return { path: schema.path, line };
+      }
+    }
+  };
+
+  for (const name of names.filter((name) => name.includes('.'))) {
+    const [typeName, fieldName] = name.split('.');
+    const location = find(typeName, fieldName) ?? find(typeName);
+    if (location) {
+      return location;
+    }
+  }
+  const typeNames = names.filter((name) => !name.includes('.') && find(name));
+  const fieldNames = names.filter((name) => !name.includes('.') && !typeNames.includes(name));
+  for (const typeName of typeNames) {
+    for (const fieldName of fieldNames) {
+      const location = find(typeName, fieldName);
+      if (location) {
+        return location;
+      }
+    }
+  }
+  return typeNames.length > 0 ? find(typeNames[0]) : undefined;
+};
+
+const toAnnotations = ({
+  errorOutput,
+  files,
+}: {
+  errorOutput: SubgraphCommandJsonOutput;
+  files: string[];
+}): { annotations: Annotation[]; unlocated: string[] } => {
+  const annotations: Annotation[] = [];
+  const unlocated: string[] = [];
+  for (const error of errorOutput.compositionErrors ?? []) {
+    const location = findSchemaLocation({ files, message: error.message });
+    if (location) {
+      annotations.push({
+        path: location.path,
+        start_line: location.line,
+        end_line: location.line,
+        annotation_level: 'failure',
+        title: `Composition error in ${error.federatedGraphName}`,
+        message: error.message,
+      });
+    } else {
+      unlocated.push(`${error.federatedGraphName}: ${error.message}`);
+    }
+  }
+  // deployment errors are about the router, not a line of the schema
+  for (const error of errorOutput.deploymentErrors ?? []) {
+    unlocated.push(`${error.federatedGraphName}: ${error.message}`);
+  }
+  return { annotations, unlocated };
+};
+
+/**
+ * Publishes a completed check run per feature flag, with the composition errors of a failed feature flag annotated
+ * at the types and fields of the schema files they refer to, and an overall check run which only succeeds if every
+ * preview was deployed, with no feature subgraph left pending, and passed its smoke tests, so that it can be required
+ * by branch protection.
+ * Failures are only reported as warnings, e.g. when the token lacks the `checks` permission.
+ */
+export const publishCheckRuns = async ({
+  githubToken,
+  context,
+  deployedFeatureFlags,
+  featureFlagErrorOutputs,
+  featureSubgraphsByFlag,
+  subgraphs,
+  checkResults = [],
+  pendingFeatureSubgraphs = [],
+  smokeTestResults = [],
+  retry,
+}: {
+  githubToken: string;
+  context: Context;
+  deployedFeatureFlags: string[];
+  featureFlagErrorOutputs: {
+    [key: string]: SubgraphCommandJsonOutput;
+  };
+  featureSubgraphsByFlag: Record<string, FeatureSubgraphsOutputConfig[]>;
+  subgraphs: Subgraph[];
+  checkResults?: SubgraphCheckResult[];
+  // the feature subgraphs held back by their readiness gate
+  pendingFeatureSubgraphs?: FeatureSubgraphsOutputConfig[];
+  smokeTestResults?: SmokeTestResult[];
+  retry?: RetryOptions;
+}): Promise<void> => {
+  const octokit = getOctokit({ githubToken, retry });
+  const headSha: string = context.payload.pull_request?.head?.sha ?? context.sha;
+  const failedFeatureFlags = Object.keys(featureFlagErrorOutputs);
+  const blockedSubgraphs = checkResults.filter((result) => result.blocked).map((result) => result.subgraphName);
+  const failedSmokeTests = smokeTestResults.filter((result) => !result.passed);
+
+  const createCheckRun = async ({
+    name,
+    conclusion,
+    title,
+    summary,
+    text,
+    annotations = [],
+  }: {
+    name: string;
+    conclusion: 'success' | 'failure';
+    title: string;
+    summary: string;
+    text?: string;
+    annotations?: Annotation[];
+  }) => {
+    try {
+      const { data: checkRun } = await octokit.rest.checks.create({
+        owner: context.repo.owner,
+        repo: context.repo.repo,
+        name,
+        head_sha: headSha,
+        status: 'completed',
+        conclusion,
+        output: { title, summary, text, annotations: annotations.slice(0, maxAnnotations) },
+      });
+      // the further annotations are added in batches, every update appends its annotations to the check run
+      for (let start = maxAnnotations; start < annotations.length; start += maxAnnotations) {
+        await octokit.rest.checks.update({
+          owner: context.repo.owner,
+          repo: context.repo.repo,
+          check_run_id: checkRun.id,
+          output: { title, summary, annotations: annotations.slice(start, start + maxAnnotations) },
+        });
+      }
+    } catch (error) {
+      core.warning(`Could not publish the check run '${name}'. ${error instanceof Error ? error.message : ''}`);
+    }
+  };
+
+  for (const name of deployedFeatureFlags) {
+    const failedSmokeTestsOfFlag = failedSmokeTests.filter((result) => result.featureFlagName === name);
+    await createCheckRun({
+      name: `Cosmo preview: ${name}`,
+      conclusion: failedSmokeTestsOfFlag.length > 0 ? 'failure' : 'success',
+      title: failedSmokeTestsOfFlag.length > 0 ? 'Deployed, smoke tests failed' : 'Deployed',
+      summary: `The feature flag ${name} has been deployed with the feature subgraphs ${(featureSubgraphsByFlag[name] ?? []).map((featureSubgraph) => featureSubgraph.featureSubgraphName).join(', ')}.`,
+      text:
+        failedSmokeTestsOfFlag.length > 0
+          ? failedSmokeTestsOfFlag
+              .map((result) => `- ${result.name}: ${[result.message, ...result.diff].filter(Boolean).join('\n  ')}`)
+              .join('\n')
+          : undefined,
+    });
+  }
+
+  for (const name of failedFeatureFlags) {
+    const files = (featureSubgraphsByFlag[name] ?? []).flatMap((featureSubgraph) => {
+      const subgraph = subgraphs.find((subgraph) => subgraph.name === featureSubgraph.baseSubgraphName);
+      return subgraph ? findSchemaFiles(subgraph.schemaPaths) : [];
+    });
+    const { annotations, unlocated } = toAnnotations({ errorOutput: featureFlagErrorOutputs[name], files });
+    await createCheckRun({
+      name: `Cosmo preview: ${name}`,
+      conclusion: 'failure',
+      title: 'Failed to deploy',
+      summary: featureFlagErrorOutputs[name].message,
+      text: unlocated.length > 0 ? unlocated.map((message) => `- ${message}`).join('\n') : undefined,
+      annotations,
+    });
+  }
+
+  const healthy =
+    failedFeatureFlags.length === 0 &&
+    blockedSubgraphs.length === 0 &&
+    pendingFeatureSubgraphs.length === 0 &&
+    failedSmokeTests.length === 0;
+  const summary = [
+    `Deployed: ${deployedFeatureFlags.join(', ') || 'none'}`,
+    `Failed: ${failedFeatureFlags.join(', ') || 'none'}`,
+    ...(blockedSubgraphs.length > 0 ? [`Blocked by their checks: ${blockedSubgraphs.join(', ')}`] : []),
+    ...(pendingFeatureSubgraphs.length > 0
+      ? [
+          `Waiting for their subgraphs to be ready: ${pendingFeatureSubgraphs.map((featureSubgraph) => featureSubgraph.featureSubgraphName).join(', ')}`,
+        ]
+      : []),
+    ...(failedSmokeTests.length > 0
+      ? [
+          `Failed smoke tests: ${failedSmokeTests.map((result) => `${result.name} (${result.featureFlagName})`).join(', ')}`,
+        ]
+      : []),
+  ].join('\n\n');
+  await createCheckRun({
+    name: overallCheckRunName,
+    conclusion: healthy ? 'success' : 'failure',
+    title: healthy ? 'Every preview has been deployed' : 'Not every preview has been deployed',
+    summary,
+  });
+};
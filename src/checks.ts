@@ -0,0 +1,134 @@
+import { CheckCompositionError, LintIssue, SchemaChange, SubgraphCheckResult } from './types.js';
+
+// eslint-disable-next-line no-control-regex
+const ansiPattern = /\u001B\[[\d;]*m/g;
+const errorSymbols = ['✖', '×'];
+
+/**
+ * Splits the tables cli-table3 draws into their rows, with the header row first. The cells of a row are spread over
+ * several lines when they wrap, so the fragments of each column are joined again.
+ */
+const parseTables = (lines: string[]): string[][][] => {
+  const tables: string[][][] = [];
+  let rows: string[][] | undefined;
+  let row: string[] = [];
+  const endRow = () => {
+    if (rows && row.length > 0) {
+      rows.push(row.map((cell) => cell.trim()));
+    }
+    row = [];
+  };
+
+  for (const line of lines) {
+    if (line.startsWith('┌')) {
+      rows = [];
+    } else if (line.startsWith('├')) {
+      endRow();
+    } else if (line.startsWith('└')) {
+      endRow();
+      if (rows) {
+        tables.push(rows);
+      }
+      rows = undefined;
+    } else if (rows && line.startsWith('│')) {
+      const cells = line.split('│').slice(1, -1);
+      row = cells.map((cell, index) => [row[index] ?? '', cell.trim()].filter(Boolean).join(' '));
+    }
+  }
+  return tables;
+};
+
+const withoutSymbol = (cell: string) => cell.replace(/^[^\p{L}\d]+\s+/u, '');
+
+const toBreakingChanges = (rows: string[][]): SchemaChange[] => {
+  return (
+    rows
+      .filter(([change]) => change.includes('BREAKING') && !change.includes('NON-BREAKING'))
+      // the change types are identifiers, which the table splits without a word boundary
+      .map(([, changeType, message]) => ({ changeType: changeType.replaceAll(' ', ''), message, isBreaking: true }))
+  );
+};
+
+const toCompositionErrors = (rows: string[][]): CheckCompositionError[] => {
+  return rows.map(([federatedGraphName, namespace, message]) => ({
+    federatedGraphName,
+    namespace,
+    message,
+    featureFlag: '',
+  }));
+};
+
+const toLintIssues = (rows: string[][]): LintIssue[] => {
+  return rows.map(([rule, message, line]) => ({
+    // the rule types are identifiers as well
+    lintRuleType: withoutSymbol(rule).replaceAll(' ', ''),
+    // the severities of the control plane, 1 is an error and 0 a warning
+    severity: errorSymbols.some((symbol) => rule.startsWith(symbol)) ? 1 : 0,
+    message,
+    issueLocation: Number(line) > 0 ? { line: Number(line) } : undefined,
+  }));
+};
+
+/**
+ * Reads the result of `wgc subgraph check` from the tables and messages it prints, as the command has no json output.
+ * Returns `undefined` if the output isn't the one of a check, e.g. because the command failed before running it.
+ */
+export const parseCheckOutput = ({
+  subgraphName,
+  exitCode,
+  output,
+}: {
+  subgraphName: string;
+  exitCode: number;
+  output: string;
+}): SubgraphCheckResult | undefined => {
+  const lines = output
+    .replaceAll(ansiPattern, '')
+    .split('\n')
+    .map((line) => line.trim());
+  const statusLine = lines.find(
+    (line) =>
+      line.includes('Schema check passed') || line.includes('Schema check failed') || line === 'Detected no changes.',
+  );
+  if (!statusLine) {
+    return;
+  }
+
+  const tables = parseTables(lines);
+  const findRows = (header: string, lastHeader?: string) => {
+    const table = tables.find(
+      ([headerRow]) => headerRow?.[0] === header && (!lastHeader || headerRow.at(-1) === lastHeader),
+    );
+    return table?.slice(1) ?? [];
+  };
+  // the details of a check which failed early, e.g. because the schema is invalid, follow its first line
+  const failedEarlyIndex = lines.findIndex(
+    (line) => line.startsWith('Check has failed early') || line.startsWith('Failed to perform the check operation'),
+  );
+  const lintIssues = toLintIssues(findRows('LINT_RULE'));
+  const url = lines
+    .find((line) => line.startsWith('Open in studio:'))
+    ?.slice('Open in studio:'.length)
+    .trim();
+
+  return {
+    subgraphName,
+    success: exitCode === 0,
+    message:
+      failedEarlyIndex === -1
+        ? withoutSymbol(statusLine)
+        : lines
+            .slice(failedEarlyIndex, failedEarlyIndex + 2)
+            .filter(Boolean)
+            .join(' '),
+    url: url || undefined,
+    breakingChanges: toBreakingChanges(findRows('CHANGE')),
+    compositionErrors: toCompositionErrors(findRows('GRAPH_NAME', 'ERROR_MESSAGE')),
+    lintErrors: lintIssues.filter((issue) => issue.severity === 1),
+    lintWarnings: lintIssues.filter((issue) => issue.severity !== 1),
+  };
+};
+
+export const hasBreakingChanges = (result: SubgraphCheckResult): boolean => {
+  return result.breakingChanges.length > 0;
+};
@@ -0,0 +1,195 @@
+import * as core from '@actions/core';
+import { Context } from '@actions/github/lib/context.js';
+import { getPreviewStatus } from './outputs.js';
+import { getOctokit } from './retry.js';
+import { ActionType, PreviewCommand, PreviewCommandName, RetryOptions, RunReport } from './types.js';
+
+export const commandPrefix = '/cosmo-preview';
+
+const commandUsage = [
+  `\`${commandPrefix} redeploy\`: publishes the feature subgraphs and feature flags of the pull request again`,
+  `\`${commandPrefix} disable [feature flag]\`: disables one or all feature flags of the pull request`,
+  `\`${commandPrefix} enable [feature flag]\`: enables one or all feature flags of the pull request`,
+  `\`${commandPrefix} destroy\`: destroys the previews of the pull request`,
+];
+
+// redeploying runs create, which updates the feature flags which exist already
+const actionTypesByCommand: Record<PreviewCommandName, ActionType> = {
+  redeploy: 'create',
+  disable: 'update',
+  enable: 'update',
+  destroy: 'destroy',
+};
+
+export const getActionTypeOfCommand = (command: PreviewCommand): ActionType => actionTypesByCommand[command.name];
+
+/**
+ * Parses the first line of the comment starting with `/cosmo-preview`.
+ * Returns undefined if the comment has no such line, and the error if the command is invalid.
+ */
+export const parseCommand = (body: string): { command: PreviewCommand } | { error: string } | undefined => {
+  const line = body
+    .split('\n')
+    .map((line) => line.trim())
+    .find((line) => line === commandPrefix || line.startsWith(`${commandPrefix} `));
+  if (!line) {
+    return;
+  }
+
+  const [, name, featureFlag, ...rest] = line.split(/\s+/);
+  const usage = `The commands are:\n${commandUsage.map((usage) => `- ${usage}`).join('\n')}`;
+  if (!name || !Object.hasOwn(actionTypesByCommand, name)) {
+    return { error: `Unknown command '${line}'. ${usage}` };
+  }
+  const takesFeatureFlag = name === 'disable' || name === 'enable';
+  if (rest.length > 0 || (featureFlag && !takesFeatureFlag)) {
+    return { error: `Too many arguments in '${line}'. ${usage}` };
+  }
+  return { command: { name: name as PreviewCommandName, featureFlag } };
+};
+
+/**
+ * Whether the command did what it was asked to: the run didn't fail, and none of its feature flags failed to deploy
+ * or failed their smoke tests.
+ */
+export const isCommandSuccessful = (report: RunReport): boolean => {
+  const status = getPreviewStatus(report);
+  return status !== 'failed' && status !== 'partially_deployed' && status !== 'smoke_tests_failed';
+};
+
+/**
+ * Renders the reply to a command: the status of the previews and the feature flags the command affected.
+ */
+export const renderCommandResult = ({ command, report }: { command: PreviewCommand; report: RunReport }): string => {
+  const commandLine = [commandPrefix, command.name, command.featureFlag].filter(Boolean).join(' ');
+  const failedFeatureFlags = Object.keys(report.featureFlagErrorOutputs);
+  const succeededOutcomes = report.outcomes.filter(
+    (outcome) => outcome.success && (outcome.operation === 'enable' || outcome.operation === 'disable'),
+  );
+  return [
+    `\`${commandLine}\` finished with the preview status \`${getPreviewStatus(report)}\`.`,
+    ...(report.error ? [`Error: ${report.error}`] : []),
+    ...(report.deployedFeatureFlags.length > 0 ? [`Deployed: ${report.deployedFeatureFlags.join(', ')}`] : []),
+    ...succeededOutcomes.map(
+      (outcome) => `${outcome.operation === 'enable' ? 'Enabled' : 'Disabled'}: ${outcome.name}`,
+    ),
+    ...(report.destroyedFeatureSubgraphs.length > 0
+      ? [
+          `Destroyed: ${report.destroyedFeatureSubgraphs.map((featureSubgraph) => featureSubgraph.featureSubgraphName).join(', ')}`,
+        ]
+      : []),
+    ...(failedFeatureFlags.length > 0 ? [`Failed: ${failedFeatureFlags.join(', ')}`] : []),
+  ].join('\n\n');
+};
+
+const addReaction = async ({
+  octokit,
+  context,
+  content,
+}: {
+  octokit: ReturnType<typeof getOctokit>;
+  context: Context;
+  content: '+1' | '-1' | 'eyes';
+}) => {
+  try {
+    await octokit.rest.reactions.createForIssueComment({
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      comment_id: Number(context.payload.comment?.id),
+      content,
+    });
+  } catch (error) {
+    core.warning(`Could not react to the comment. ${error instanceof Error ? error.message : ''}`);
+  }
+};
+
+/**
+ * Replies to the comment with the command and reacts to it with the outcome.
+ */
+export const replyToCommand = async ({
+  githubToken,
+  context,
+  success,
+  message,
+  retry,
+}: {
+  githubToken: string;
+  context: Context;
+  success: boolean;
+  message: string;
+  retry?: RetryOptions;
+}): Promise<void> => {
+  const octokit = getOctokit({ githubToken, retry });
+  const runUrl = `${context.serverUrl}/${context.repo.owner}/${context.repo.repo}/actions/runs/${context.runId}`;
+  await addReaction({ octokit, context, content: success ? '+1' : '-1' });
+  try {
+    await octokit.rest.issues.createComment({
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      issue_number: context.issue.number,
+      body: `@${context.payload.comment?.user?.login} ${message}\n\n[Workflow run](${runUrl})`,
+    });
+  } catch (error) {
+    core.warning(`Could not reply to the comment. ${error instanceof Error ? error.message : ''}`);
+  }
+};
+
+/**
+ * Accepts the command of a comment if its author has write access to the repository and the pull request isn't from
+ * a fork. The comment is acknowledged with a reaction, and the pull request is fetched into the payload, so that the
+ * flows of the pull_request events can run for it. Other commands are rejected with a reply.
+ * @returns whether the command was accepted.
+ */
+export const acceptCommand = async ({
+  githubToken,
+  context,
+  retry,
+}: {
+  githubToken: string;
+  context: Context;
+  retry?: RetryOptions;
+}): Promise<boolean> => {
+  const octokit = getOctokit({ githubToken, retry });
+  const username: string = context.payload.comment?.user?.login;
+
+  const { data: permission } = await octokit.rest.repos.getCollaboratorPermissionLevel({
+    owner: context.repo.owner,
+    repo: context.repo.repo,
+    username,
+  });
+  // the maintain role is reported as write
+  if (permission.permission !== 'admin' && permission.permission !== 'write') {
+    core.info(`The user '${username}' has the permission '${permission.permission}', which can't run commands.`);
+    await replyToCommand({
+      githubToken,
+      context,
+      success: false,
+      message: `only users with write access to the repository can run \`${commandPrefix}\` commands.`,
+      retry,
+    });
+    return false;
+  }
+
+  const { data: pullRequest } = await octokit.rest.pulls.get({
+    owner: context.repo.owner,
+    repo: context.repo.repo,
+    pull_number: context.issue.number,
+  });
+  // the workflow checks out the head of the pull request with the secrets of the repository and runs the schema
+  // commands of its config, which mustn't come from a fork
+  if (pullRequest.head.repo?.full_name !== pullRequest.base.repo.full_name) {
+    core.info(`The pull request #${pullRequest.number} is from a fork, which can't run commands.`);
+    await replyToCommand({
+      githubToken,
+      context,
+      success: false,
+      message: `\`${commandPrefix}\` commands can't be run on pull requests from forks.`,
+      retry,
+    });
+    return false;
+  }
+
+  await addReaction({ octokit, context, content: 'eyes' });
+  context.payload.pull_request = { ...pullRequest, body: pullRequest.body ?? undefined };
+  return true;
+};
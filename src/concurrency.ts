@@ -0,0 +1,34 @@
+/**
+ * Maps the items with an async function, running at most `concurrency` calls at a time.
+ * The results are in the order of the items, regardless of the order the calls finish in.
+ * If a call throws, no further calls are started and the first error is thrown once the running calls are done.
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> => {
+  const results: R[] = Array.from({ length: items.length });
+  let nextIndex = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (nextIndex < items.length && !failed) {
+      const index = nextIndex++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.min(Math.max(concurrency, 1), items.length) }, () => worker());
+  const settled = await Promise.allSettled(workers);
+  const rejected = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+  if (rejected) {
+    throw rejected.reason;
+  }
+  return results;
+};
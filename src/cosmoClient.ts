@@ -0,0 +1,311 @@
+import { mkdtempSync, readFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import * as exec from '@actions/exec';
+import { join } from 'pathe';
+import { SubgraphCommandJsonOutput, WhoAmICommandJsonOutput } from 'wgc/dist/core/types/types.js';
+import { parseCheckOutput } from './checks.js';
+import { withRetry } from './retry.js';
+import { CosmoFederatedGraph, CosmoFeatureFlag, CosmoSubgraph, RetryOptions, SubgraphCheckResult } from './types.js';
+
+export type CosmoError = {
+  message: string;
+  exitCode: number;
+  // whether the command failed because of a transient problem, e.g. a network error
+  retryable: boolean;
+  // the json output of the command, if it printed one
+  output?: SubgraphCommandJsonOutput;
+};
+
+export type CosmoResult<T> = { success: true; data: T } | { success: false; error: CosmoError };
+
+/**
+ * All the operations the action performs against Cosmo.
+ */
+export type CosmoClient = {
+  whoami: () => Promise<CosmoResult<WhoAmICommandJsonOutput>>;
+  // a failed check is a successful result, the command only fails if the check couldn't be run
+  checkSubgraph: (params: {
+    name: string;
+    schemaPath: string;
+    namespace: string;
+  }) => Promise<CosmoResult<SubgraphCheckResult>>;
+  publishFeatureSubgraph: (params: {
+    name: string;
+    baseSubgraphName: string;
+    routingUrl: string;
+    schemaPath: string;
+    namespace: string;
+  }) => Promise<CosmoResult<void>>;
+  createFeatureFlag: (params: {
+    name: string;
+    namespace: string;
+    labels: string[];
+    featureSubgraphs: string[];
+    enabled?: boolean;
+  }) => Promise<CosmoResult<SubgraphCommandJsonOutput>>;
+  updateFeatureFlag: (params: {
+    name: string;
+    namespace: string;
+    labels: string[];
+    featureSubgraphs?: string[];
+  }) => Promise<CosmoResult<SubgraphCommandJsonOutput>>;
+  setFeatureFlagEnabled: (params: { name: string; namespace: string; enabled: boolean }) => Promise<CosmoResult<void>>;
+  // the latest published SDL of a subgraph
+  fetchSubgraphSchema: (params: { name: string; namespace: string }) => Promise<CosmoResult<string>>;
+  listFeatureFlags: (namespace: string) => Promise<CosmoResult<CosmoFeatureFlag[]>>;
+  listSubgraphs: (namespace: string) => Promise<CosmoResult<CosmoSubgraph[]>>;
+  listFederatedGraphs: (namespace: string) => Promise<CosmoResult<CosmoFederatedGraph[]>>;
+  deleteSubgraph: (params: { name: string; namespace: string }) => Promise<CosmoResult<void>>;
+  deleteFeatureFlag: (params: { name: string; namespace: string }) => Promise<CosmoResult<void>>;
+};
+
+/**
+ * Returns the data of a successful result and throws the error of a failed one.
+ */
+export const unwrapResult = <T>(result: CosmoResult<T>): T => {
+  if (!result.success) {
+    throw new Error(result.error.message);
+  }
+  return result.data;
+};
+
+type CommandOutput = {
+  exitCode: number;
+  stdout: string;
+  stderr: string;
+};
+
+const retryablePattern =
+  /\[(?:unavailable|deadline_exceeded|resource_exhausted|aborted)]|econnreset|econnrefused|etimedout|eai_again|socket hang up|fetch failed|\b50[2-4]\b/i;
+
+// a missing wgc binary or a rejected request won't succeed on a retry, while network errors and an unavailable control plane might
+const isRetryableOutput = ({ exitCode, stdout, stderr }: CommandOutput): boolean => {
+  return exitCode > 0 && retryablePattern.test(`${stderr}\n${stdout}`);
+};
+
+class RetryableCommandError extends Error {
+  constructor(readonly output: CommandOutput) {
+    super(output.stderr.trim() || `exit code ${output.exitCode}`);
+  }
+}
+
+const execWgc = async (args: string[], silent: boolean): Promise<CommandOutput> => {
+  let stdout = '';
+  let stderr = '';
+  try {
+    const exitCode = await exec.exec('wgc', args, {
+      silent,
+      ignoreReturnCode: true,
+      // the output of some commands is parsed, e.g. the tables of the check
+      env: { ...(process.env as Record<string, string>), NO_COLOR: '1' },
+      listeners: {
+        stdout: (data: Buffer) => {
+          stdout += data.toString();
+        },
+        stderr: (data: Buffer) => {
+          stderr += data.toString();
+        },
+      },
+    });
+    return { exitCode, stdout, stderr };
+  } catch (error) {
+    // e.g. wgc is not installed
+    return { exitCode: -1, stdout, stderr: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+const runWgc = async (
+  args: string[],
+  {
+    silent = false,
+    retry,
+    isRetryable = isRetryableOutput,
+  }: { silent?: boolean; retry?: RetryOptions; isRetryable?: (output: CommandOutput) => boolean } = {},
+): Promise<CommandOutput> => {
+  try {
+    return await withRetry(
+      async () => {
+        const output = await execWgc(args, silent);
+        if (isRetryable(output)) {
+          throw new RetryableCommandError(output);
+        }
+        return output;
+      },
+      {
+        description: `wgc ${args.slice(0, 3).join(' ')}`,
+        isRetryable: (error) => error instanceof RetryableCommandError,
+        options: retry,
+      },
+    );
+  } catch (error) {
+    // the retries are used up, the last failure is returned as the result of the command
+    if (error instanceof RetryableCommandError) {
+      return error.output;
+    }
+    throw error;
+  }
+};
+
+// wgc prints plain messages instead of json in some cases, e.g. when a list is empty
+const parseJson = <T>(text: string): T | undefined => {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith('[') && !trimmed.startsWith('{')) {
+    return;
+  }
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // the output is not json after all
+  }
+};
+
+const toError = (args: string[], output: CommandOutput): CosmoError => {
+  const details = (output.stderr || output.stdout).trim();
+  return {
+    message: `Command 'wgc ${args.join(' ')}' failed with exit code ${output.exitCode}.${details ? ` ${details}` : ''}`,
+    exitCode: output.exitCode,
+    retryable: isRetryableOutput(output),
+  };
+};
+
+const runCommand = async (args: string[], retry?: RetryOptions): Promise<CosmoResult<void>> => {
+  const output = await runWgc(args, { retry });
+  if (output.exitCode !== 0) {
+    return { success: false, error: toError(args, output) };
+  }
+  return { success: true, data: undefined };
+};
+
+const runList = async <T>(args: string[], retry?: RetryOptions): Promise<CosmoResult<T[]>> => {
+  const output = await runWgc([...args, '--json'], { silent: true, retry });
+  if (output.exitCode !== 0) {
+    return { success: false, error: toError(args, output) };
+  }
+  return { success: true, data: parseJson<T[]>(output.stdout) ?? [] };
+};
+
+// the feature flag commands print their json output to stderr when the composition fails
+const runFeatureFlagCommand = async (
+  args: string[],
+  retry?: RetryOptions,
+): Promise<CosmoResult<SubgraphCommandJsonOutput>> => {
+  const output = await runWgc([...args, '--json'], { retry });
+  const jsonOutput =
+    parseJson<SubgraphCommandJsonOutput>(output.stdout) ?? parseJson<SubgraphCommandJsonOutput>(output.stderr);
+  if (jsonOutput?.status === 'success') {
+    return { success: true, data: jsonOutput };
+  }
+  if (jsonOutput) {
+    return {
+      success: false,
+      error: { message: jsonOutput.message, exitCode: output.exitCode, retryable: false, output: jsonOutput },
+    };
+  }
+  return { success: false, error: toError(args, output) };
+};
+
+/**
+ * Creates a client which runs the commands with the wgc CLI, authenticated by the `COSMO_API_KEY` environment variable.
+ * Commands which fail with a retryable error are retried with exponential backoff.
+ */
+export const createCosmoClient = ({ retry }: { retry?: RetryOptions } = {}): CosmoClient => {
+  return {
+    whoami: async () => {
+      const args = ['auth', 'whoami', '--json'];
+      const output = await runWgc(args, { retry });
+      const jsonOutput = parseJson<WhoAmICommandJsonOutput>(output.stdout);
+      if (output.exitCode === 0 && jsonOutput?.status === 'success') {
+        return { success: true, data: jsonOutput };
+      }
+      if (jsonOutput?.details) {
+        return { success: false, error: { message: jsonOutput.details, exitCode: output.exitCode, retryable: false } };
+      }
+      return { success: false, error: toError(args, output) };
+    },
+    checkSubgraph: async ({ name, schemaPath, namespace }) => {
+      const args = ['subgraph', 'check', name, '-n', namespace, '--schema', schemaPath];
+      const parse = ({ exitCode, stdout, stderr }: CommandOutput) =>
+        parseCheckOutput({ subgraphName: name, exitCode, output: `${stdout}\n${stderr}` });
+      // a failed check exits with a non-zero code as well, only a check which wasn't run is retried
+      const output = await runWgc(args, {
+        retry,
+        isRetryable: (output) => !parse(output) && isRetryableOutput(output),
+      });
+      const result = parse(output);
+      if (result) {
+        return { success: true, data: result };
+      }
+      return { success: false, error: toError(args, output) };
+    },
+    publishFeatureSubgraph: ({ name, baseSubgraphName, routingUrl, schemaPath, namespace }) => {
+      return runCommand(
+        [
+          'feature-subgraph',
+          'publish',
+          name,
+          '--subgraph',
+          baseSubgraphName,
+          '--routing-url',
+          routingUrl,
+          '--schema',
+          schemaPath,
+          '-n',
+          namespace,
+        ],
+        retry,
+      );
+    },
+    createFeatureFlag: ({ name, namespace, labels, featureSubgraphs, enabled = false }) => {
+      return runFeatureFlagCommand(
+        [
+          'feature-flag',
+          'create',
+          name,
+          '-n',
+          namespace,
+          '--label',
+          ...labels,
+          '--feature-subgraphs',
+          ...featureSubgraphs,
+          ...(enabled ? ['--enabled'] : []),
+        ],
+        retry,
+      );
+    },
+    updateFeatureFlag: ({ name, namespace, labels, featureSubgraphs }) => {
+      return runFeatureFlagCommand(
+        [
+          'feature-flag',
+          'update',
+          name,
+          '-n',
+          namespace,
+          '--label',
+          ...labels,
+          ...(featureSubgraphs ? ['--feature-subgraphs', ...featureSubgraphs] : []),
+        ],
+        retry,
+      );
+    },
+    fetchSubgraphSchema: async ({ name, namespace }) => {
+      const schemaFile = join(
+        mkdtempSync(join(process.env.RUNNER_TEMP || tmpdir(), 'cosmo-previews-')),
+        `${name}.graphql`,
+      );
+      const result = await runCommand(['subgraph', 'fetch', name, '-n', namespace, '-o', schemaFile], retry);
+      if (!result.success) {
+        return result;
+      }
+      return { success: true, data: readFileSync(schemaFile).toString() };
+    },
+    listFeatureFlags: (namespace) => runList<CosmoFeatureFlag>(['feature-flag', 'list', '-n', namespace], retry),
+    listSubgraphs: (namespace) => runList<CosmoSubgraph>(['subgraph', 'list', '-n', namespace], retry),
+    listFederatedGraphs: (namespace) =>
+      runList<CosmoFederatedGraph>(['federated-graph', 'list', '-n', namespace], retry),
+    deleteSubgraph: ({ name, namespace }) => runCommand(['subgraph', 'delete', name, '-n', namespace, '-f'], retry),
+    deleteFeatureFlag: ({ name, namespace }) =>
+      runCommand(['feature-flag', 'delete', name, '-n', namespace, '-f'], retry),
+    setFeatureFlagEnabled: ({ name, namespace, enabled }) =>
+      runCommand(['feature-flag', enabled ? 'enable' : 'disable', name, '-n', namespace], retry),
+  };
+};
@@ -0,0 +1,159 @@
+import * as core from '@actions/core';
+import { Context } from '@actions/github/lib/context.js';
+import { getOctokit } from './retry.js';
+import { RetryOptions } from './types.js';
+
+export type DeploymentState = 'in_progress' | 'success' | 'failure' | 'inactive';
+
+// the description of a deployment status is limited to 140 characters
+const maxDescriptionLength = 140;
+
+/**
+ * The GitHub environment of a feature flag, e.g. `preview-my-flag-12` for the feature flag `my-flag-12`.
+ */
+export const getEnvironmentName = (featureFlagName: string) => `preview-${featureFlagName}`;
+
+const toDescription = (message: string) => {
+  const line = message.replaceAll('\n', ' ').trim();
+  return line.length > maxDescriptionLength ? `${line.slice(0, maxDescriptionLength - 3)}...` : line;
+};
+
+/**
+ * Creates a deployment of the head commit of the PR in the environment of the feature flag and marks it as in progress.
+ * Returns undefined if the deployment could not be created, e.g. because the token lacks the `deployments` permission,
+ * as the deployments only mirror the previews and must not fail the run.
+ */
+export const startDeployment = async ({
+  githubToken,
+  context,
+  featureFlagName,
+  retry,
+}: {
+  githubToken: string;
+  context: Context;
+  featureFlagName: string;
+  retry?: RetryOptions;
+}): Promise<number | undefined> => {
+  const octokit = getOctokit({ githubToken, retry });
+  const environment = getEnvironmentName(featureFlagName);
+
+  try {
+    const deployment = await octokit.rest.repos.createDeployment({
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      ref: context.payload.pull_request?.head?.sha ?? context.sha,
+      environment,
+      description: `Cosmo preview of the feature flag ${featureFlagName}`,
+      // the checks of the commit may still be running, the preview doesn't depend on them
+      required_contexts: [],
+      auto_merge: false,
+      transient_environment: true,
+      production_environment: false,
+    });
+    if (!('id' in deployment.data)) {
+      core.warning(`Could not create a deployment for the environment '${environment}'. ${deployment.data.message}`);
+      return;
+    }
+    await setDeploymentStatus({
+      githubToken,
+      context,
+      deploymentId: deployment.data.id,
+      state: 'in_progress',
+      description: `Deploying the feature flag ${featureFlagName}`,
+      retry,
+    });
+    return deployment.data.id;
+  } catch (error) {
+    core.warning(
+      `Could not create a deployment for the environment '${environment}'. ${error instanceof Error ? error.message : ''}`,
+    );
+  }
+};
+
+/**
+ * Posts a status to the deployment. Failures are only reported as warnings.
+ */
+export const setDeploymentStatus = async ({
+  githubToken,
+  context,
+  deploymentId,
+  state,
+  description,
+  environmentUrl,
+  retry,
+}: {
+  githubToken: string;
+  context: Context;
+  deploymentId: number;
+  state: DeploymentState;
+  description: string;
+  environmentUrl?: string;
+  retry?: RetryOptions;
+}): Promise<void> => {
+  const octokit = getOctokit({ githubToken, retry });
+
+  try {
+    await octokit.rest.repos.createDeploymentStatus({
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      deployment_id: deploymentId,
+      state,
+      description: toDescription(description),
+      environment_url: environmentUrl,
+    });
+  } catch (error) {
+    core.warning(
+      `Could not set the status of the deployment ${deploymentId} to '${state}'. ${error instanceof Error ? error.message : ''}`,
+    );
+  }
+};
+
+/**
+ * Marks every deployment in the environments of the feature flags as inactive,
+ * which removes the environments from the deployments of the PR.
+ */
+export const deactivateDeployments = async ({
+  githubToken,
+  context,
+  featureFlagNames,
+  retry,
+}: {
+  githubToken: string;
+  context: Context;
+  featureFlagNames: string[];
+  retry?: RetryOptions;
+}): Promise<void> => {
+  const octokit = getOctokit({ githubToken, retry });
+
+  for (const featureFlagName of featureFlagNames) {
+    const environment = getEnvironmentName(featureFlagName);
+    let deployments;
+    try {
+      deployments = await octokit.paginate(octokit.rest.repos.listDeployments, {
+        owner: context.repo.owner,
+        repo: context.repo.repo,
+        environment,
+        per_page: 100,
+      });
+    } catch (error) {
+      core.warning(
+        `Could not list the deployments of the environment '${environment}'. ${error instanceof Error ? error.message : ''}`,
+      );
+      continue;
+    }
+
+    for (const deployment of deployments) {
+      await setDeploymentStatus({
+        githubToken,
+        context,
+        deploymentId: deployment.id,
+        state: 'inactive',
+        description: `The feature flag ${featureFlagName} has been destroyed`,
+        retry,
+      });
+    }
+    if (deployments.length > 0) {
+      core.info(`Marked ${deployments.length} deployments of the environment '${environment}' as inactive.`);
+    }
+  }
+};
@@ -0,0 +1,95 @@
+import { WebhookPayload } from '@actions/github/lib/interfaces.js';
+import { ActionType } from './types.js';
+
+/**
+ * How auto mode handles draft pull requests: `skip` only previews pull requests which are ready for review,
+ * `include` previews drafts like any other pull request.
+ */
+export type DraftPullRequests = 'skip' | 'include';
+
+export const draftPullRequestsValues: DraftPullRequests[] = ['skip', 'include'];
+
+const actionTypesByEventAction: Record<string, ActionType> = {
+  opened: 'create',
+  reopened: 'create',
+  ready_for_review: 'create',
+  synchronize: 'update',
+  edited: 'update',
+  closed: 'destroy',
+  converted_to_draft: 'destroy',
+};
+
+const actionTypesByLabelAction: Record<string, ActionType> = {
+  labeled: 'create',
+  unlabeled: 'destroy',
+};
+
+/**
+ * Infers the action type of auto mode from the pull_request event which triggered the workflow.
+ * Returns the reason instead if the event doesn't affect the previews.
+ */
+export const getActionTypeOfEvent = ({
+  eventName,
+  payload,
+  draftPullRequests,
+  triggerLabel,
+}: {
+  eventName: string;
+  payload: WebhookPayload;
+  draftPullRequests: DraftPullRequests;
+  triggerLabel?: string;
+}): { actionType: ActionType } | { reason: string } => {
+  if (eventName !== 'pull_request' && eventName !== 'pull_request_target') {
+    return { reason: `the event '${eventName}' is not a pull request event` };
+  }
+
+  const action = payload.action ?? '';
+  // adding the trigger label creates the previews and removing it destroys them
+  const actionType = triggerLabel
+    ? (actionTypesByLabelAction[action] ?? actionTypesByEventAction[action])
+    : actionTypesByEventAction[action];
+  if (!actionType) {
+    return { reason: `the pull request action '${action}' doesn't affect the previews` };
+  }
+  if (draftPullRequests === 'include' && action === 'converted_to_draft') {
+    return { reason: 'draft pull requests are previewed as well, so the preview is kept' };
+  }
+  // previews are always destroyed, drafts or not, e.g. when a draft is closed
+  if (actionType === 'destroy' || draftPullRequests === 'include') {
+    return { actionType };
+  }
+
+  if (payload.pull_request?.draft) {
+    return { reason: 'the pull request is a draft, it is previewed once it is ready for review' };
+  }
+  return { actionType };
+};
+
+/**
+ * Tells why the previews of the pull request are left alone when the config has a trigger label:
+ * a label event for another label, or a create or update of a pull request without the trigger label.
+ * Destroying is never skipped, so that removing the label tears the previews down.
+ */
+export const getTriggerLabelSkipReason = ({
+  payload,
+  actionType,
+  triggerLabel,
+}: {
+  payload: WebhookPayload;
+  actionType: ActionType;
+  triggerLabel?: string;
+}): string | undefined => {
+  if (!triggerLabel) {
+    return;
+  }
+  if ((payload.action === 'labeled' || payload.action === 'unlabeled') && payload.label?.name !== triggerLabel) {
+    return `the label '${payload.label?.name}' is not the trigger label '${triggerLabel}'`;
+  }
+  if (actionType !== 'create' && actionType !== 'update') {
+    return;
+  }
+  const labels: { name: string }[] = payload.pull_request?.labels ?? [];
+  if (!labels.some((label) => label.name === triggerLabel)) {
+    return `the pull request doesn't have the trigger label '${triggerLabel}'`;
+  }
+};
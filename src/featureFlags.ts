@@ -0,0 +1,71 @@
+import * as core from '@actions/core';
+import { CosmoClient, unwrapResult } from './cosmoClient.js';
+import { CosmoFederatedGraph, CosmoSubgraph, FeatureFlag } from './types.js';
+
+export type FeatureFlagSubgraphMatcher = (featureFlag: FeatureFlag, baseSubgraphName: string) => boolean;
+
+/**
+ * A subgraph is part of a federated graph if it has at least one label of every label matcher of the graph.
+ * A label matcher is a comma separated list of labels, e.g. `team=A,team=B`.
+ */
+const isSubgraphOfFederatedGraph = (subgraph: CosmoSubgraph, federatedGraph: CosmoFederatedGraph): boolean => {
+  if (federatedGraph.labelMatchers.length === 0) {
+    return false;
+  }
+  const subgraphLabels = new Set(subgraph.labels.map((label) => `${label.key}=${label.value}`));
+  return federatedGraph.labelMatchers.every((labelMatcher) =>
+    labelMatcher.split(',').some((label) => subgraphLabels.has(label.trim())),
+  );
+};
+
+/**
+ * Creates a function which tells whether a feature flag covers a subgraph.
+ * Feature flags without `subgraphs` and `federated_graphs` cover every subgraph.
+ * The federated graphs and subgraphs of the namespace are only fetched if a feature flag references federated graphs.
+ */
+export const createFeatureFlagSubgraphMatcher = async ({
+  cosmoClient,
+  namespace,
+  featureFlags,
+}: {
+  cosmoClient: CosmoClient;
+  namespace: string;
+  featureFlags: FeatureFlag[];
+}): Promise<FeatureFlagSubgraphMatcher> => {
+  const subgraphsByFederatedGraph = new Map<string, Set<string>>();
+
+  if (featureFlags.some((featureFlag) => featureFlag.federated_graphs)) {
+    const [federatedGraphs, subgraphs] = await Promise.all([
+      cosmoClient.listFederatedGraphs(namespace).then(unwrapResult),
+      cosmoClient.listSubgraphs(namespace).then(unwrapResult),
+    ]);
+    for (const federatedGraph of federatedGraphs) {
+      const subgraphNames = subgraphs
+        .filter((subgraph) => !subgraph.isFeatureSubgraph && isSubgraphOfFederatedGraph(subgraph, federatedGraph))
+        .map((subgraph) => subgraph.name);
+      subgraphsByFederatedGraph.set(federatedGraph.name, new Set(subgraphNames));
+    }
+
+    for (const featureFlag of featureFlags) {
+      for (const federatedGraphName of featureFlag.federated_graphs ?? []) {
+        if (!subgraphsByFederatedGraph.has(federatedGraphName)) {
+          core.warning(
+            `The federated graph '${federatedGraphName}' of the feature flag '${featureFlag.name}' was not found in the namespace '${namespace}'.`,
+          );
+        }
+      }
+    }
+  }
+
+  return (featureFlag, baseSubgraphName) => {
+    if (!featureFlag.subgraphs && !featureFlag.federated_graphs) {
+      return true;
+    }
+    if (featureFlag.subgraphs?.includes(baseSubgraphName)) {
+      return true;
+    }
+    return (featureFlag.federated_graphs ?? []).some((federatedGraphName) =>
+      subgraphsByFederatedGraph.get(federatedGraphName)?.has(baseSubgraphName),
+    );
+  };
+};
@@ -2,6 +2,9 @@ import * as github from '@actions/github';
 import * as core from '@actions/core';
 import type { RestEndpointMethodTypes } from '@octokit/rest';
 import mm from 'micromatch';
+import { getOctokit } from './retry.js';
+import { RetryOptions } from './types.js';
+import { getLastDeployedSha } from './utils.js';
 
 export enum ChangeTypeEnum {
   Added = 'A',
@@ -18,8 +21,14 @@ export type ChangedFiles = {
   [key in ChangeTypeEnum]: string[];
 };
 
-export const getChangedFilesFromGithubAPI = async ({ githubToken }: { githubToken: string }): Promise<ChangedFiles> => {
-  const octokit = github.getOctokit(githubToken);
+export const getChangedFilesFromGithubAPI = async ({
+  githubToken,
+  retry,
+}: {
+  githubToken: string;
+  retry?: RetryOptions;
+}): Promise<ChangedFiles> => {
+  const octokit = getOctokit({ githubToken, retry });
   const changedFiles: ChangedFiles = {
     [ChangeTypeEnum.Added]: [],
     [ChangeTypeEnum.Copied]: [],
@@ -120,12 +129,16 @@ export const getRemovedGraphQLFilesInLastCommit = async ({
   githubToken,
   prNumber,
   changedGraphQLFilesInPr,
+  filePatterns = ['**/*.graphql', '**/*.gql', '**/*.graphqls'],
+  retry,
 }: {
   githubToken: string;
   prNumber: number;
   changedGraphQLFilesInPr: string[];
+  filePatterns?: string[];
+  retry?: RetryOptions;
 }) => {
-  const octokit = github.getOctokit(githubToken);
+  const octokit = getOctokit({ githubToken, retry });
 
   // Step 1: Get the list of commits in the pull request
   const commits = await octokit.rest.pulls.listCommits({
@@ -155,7 +168,7 @@ export const getRemovedGraphQLFilesInLastCommit = async ({
   const modifiedFiles = commitFiles.data.files?.filter((file) => file.status === 'modified');
   const modifiedFilePaths = modifiedFiles.map((file) => file.filename);
 
-  const modifiedGraphQLFiles: string[] = mm(modifiedFilePaths, ['**/*.graphql', '**/*.gql', '**/*.graphqls'], {
+  const modifiedGraphQLFiles: string[] = mm(modifiedFilePaths, filePatterns, {
     dot: true,
     noext: true,
   }).map((element) => normalizeSeparators(element));
@@ -167,42 +180,56 @@ export const getRemovedGraphQLFilesInLastCommit = async ({
   return removedGraphQLFiles;
 };
 
-export const hasCosmoConfigChangedInLastCommit = async ({
+/**
+ * Returns the ref of the commit the previews were last synced with, i.e. the commit of the last successful deployment
+ * recorded in the deployment comment. The previous head of a synchronize event isn't used, as the run of that commit
+ * might have been cancelled or have failed. Falls back to the base of the PR if the previews were never deployed.
+ */
+export const getLastSyncedRef = async ({
   githubToken,
   prNumber,
+  retry,
 }: {
   githubToken: string;
   prNumber: number;
-}): Promise<boolean> => {
-  const octokit = github.getOctokit(githubToken);
-
-  // Get the list of commits in the pull request
-  const commits = await octokit.rest.pulls.listCommits({
-    owner: github.context.repo.owner,
-    repo: github.context.repo.repo,
-    pull_number: prNumber,
-  });
-
-  // Get the last commit
-  const lastCommit = commits.data.at(-1);
-  if (!lastCommit) {
-    return false;
-  }
-  const lastCommitSha = lastCommit.sha;
+  retry?: RetryOptions;
+}): Promise<string | undefined> => {
+  const lastDeployedSha = await getLastDeployedSha({ githubToken, prNumber, context: github.context, retry });
+  return lastDeployedSha ?? github.context.payload.pull_request?.base?.sha;
+};
 
-  // Get the list of files in the last commit
-  const commitFiles = await octokit.rest.repos.getCommit({
-    owner: github.context.repo.owner,
-    repo: github.context.repo.repo,
-    ref: lastCommitSha,
-  });
-  if (!commitFiles.data.files) {
-    return false;
+/**
+ * Fetches the content of the cosmo config file at the given ref.
+ * Returns undefined if the file did not exist at that ref.
+ */
+export const getCosmoConfigAtRef = async ({
+  githubToken,
+  configPath,
+  ref,
+  retry,
+}: {
+  githubToken: string;
+  configPath: string;
+  ref: string;
+  retry?: RetryOptions;
+}): Promise<string | undefined> => {
+  const octokit = getOctokit({ githubToken, retry });
+
+  try {
+    const response = await octokit.rest.repos.getContent({
+      owner: github.context.repo.owner,
+      repo: github.context.repo.repo,
+      path: configPath,
+      ref,
+    });
+    if (Array.isArray(response.data) || response.data.type !== 'file' || !('content' in response.data)) {
+      return;
+    }
+    return Buffer.from(response.data.content, 'base64').toString();
+  } catch (error) {
+    if (error instanceof Error && 'status' in error && error.status === 404) {
+      return;
+    }
+    throw error;
   }
-
-  // Filter out the files that were removed
-  const modifiedFiles = commitFiles.data.files?.filter((file) => file.status === 'modified');
-  const modifiedFilePaths = modifiedFiles.map((file) => file.filename);
-
-  return modifiedFilePaths.includes('.github/cosmo.yaml');
 };
@@ -0,0 +1,183 @@
+// the methods are async to implement the same interface as the wgc client
+/* eslint-disable require-await */
+import { SubgraphCommandJsonOutput } from 'wgc/dist/core/types/types.js';
+import { CosmoClient, CosmoResult } from './cosmoClient.js';
+import { CosmoFederatedGraph, CosmoFeatureFlag, CosmoSubgraph } from './types.js';
+
+export type InMemoryCosmoState = {
+  organizationSlug: string;
+  // the schema is the published SDL of a subgraph, which the schema files of feature subgraphs are published from
+  subgraphs: (CosmoSubgraph & { baseSubgraphName?: string; schema?: string; schemaPath?: string })[];
+  featureFlags: (CosmoFeatureFlag & { featureSubgraphs: string[] })[];
+  federatedGraphs: CosmoFederatedGraph[];
+};
+
+const fail = <T>(message: string): CosmoResult<T> => ({
+  success: false,
+  error: { message, exitCode: 1, retryable: false },
+});
+
+const toLabels = (labels: string[]) => {
+  return labels.map((label) => {
+    const [key, value] = label.split('=');
+    return { key, value };
+  });
+};
+
+const success = (message: string): CosmoResult<SubgraphCommandJsonOutput> => ({
+  success: true,
+  data: { status: 'success', message, compositionErrors: [], deploymentErrors: [] },
+});
+
+/**
+ * Creates a client which keeps the resources in memory instead of talking to Cosmo, e.g. to run the flows of the
+ * action in tests. It mirrors the validation of the control plane for the operations the action relies on,
+ * e.g. a feature subgraph can only be published for an existing base subgraph.
+ */
+export const createInMemoryCosmoClient = (
+  initialState: Partial<InMemoryCosmoState> = {},
+): CosmoClient & { state: InMemoryCosmoState } => {
+  const state: InMemoryCosmoState = {
+    organizationSlug: 'organization',
+    subgraphs: [],
+    featureFlags: [],
+    federatedGraphs: [],
+    ...initialState,
+  };
+  const findSubgraph = (name: string, namespace: string) =>
+    state.subgraphs.find((subgraph) => subgraph.name === name && subgraph.namespace === namespace);
+  const findFeatureFlag = (name: string, namespace: string) =>
+    state.featureFlags.find((featureFlag) => featureFlag.name === name && featureFlag.namespace === namespace);
+  const findMissingFeatureSubgraphs = (names: string[], namespace: string) =>
+    names.filter((name) => !findSubgraph(name, namespace)?.isFeatureSubgraph);
+
+  return {
+    state,
+    whoami: async () => ({
+      success: true,
+      data: {
+        status: 'success',
+        organizationName: state.organizationSlug,
+        organizationSlug: state.organizationSlug,
+        apiUrl: 'http://localhost',
+      },
+    }),
+    checkSubgraph: async ({ name, namespace }) => {
+      const subgraph = findSubgraph(name, namespace);
+      if (!subgraph || subgraph.isFeatureSubgraph) {
+        return fail(`The subgraph '${name}' was not found in the namespace '${namespace}'.`);
+      }
+      return {
+        success: true,
+        data: {
+          subgraphName: name,
+          success: true,
+          message: 'Schema check passed.',
+          breakingChanges: [],
+          compositionErrors: [],
+          lintErrors: [],
+          lintWarnings: [],
+        },
+      };
+    },
+    publishFeatureSubgraph: async ({ name, baseSubgraphName, routingUrl, schemaPath, namespace }) => {
+      const baseSubgraph = findSubgraph(baseSubgraphName, namespace);
+      if (!baseSubgraph || baseSubgraph.isFeatureSubgraph) {
+        return fail(`The base subgraph '${baseSubgraphName}' was not found in the namespace '${namespace}'.`);
+      }
+      const featureSubgraph = findSubgraph(name, namespace);
+      if (featureSubgraph) {
+        featureSubgraph.routingURL = routingUrl;
+        featureSubgraph.schemaPath = schemaPath;
+      } else {
+        state.subgraphs.push({
+          name,
+          namespace,
+          routingURL: routingUrl,
+          labels: baseSubgraph.labels,
+          isFeatureSubgraph: true,
+          baseSubgraphName,
+          schemaPath,
+        });
+      }
+      return { success: true, data: undefined };
+    },
+    createFeatureFlag: async ({ name, namespace, labels, featureSubgraphs, enabled = false }) => {
+      if (findFeatureFlag(name, namespace)) {
+        return fail(`The feature flag '${name}' already exists in the namespace '${namespace}'.`);
+      }
+      const missingFeatureSubgraphs = findMissingFeatureSubgraphs(featureSubgraphs, namespace);
+      if (missingFeatureSubgraphs.length > 0) {
+        return fail(`The feature subgraphs ${missingFeatureSubgraphs.join(', ')} were not found.`);
+      }
+      state.featureFlags.push({ name, namespace, isEnabled: enabled, labels: toLabels(labels), featureSubgraphs });
+      return success(`The feature flag '${name}' was created.`);
+    },
+    updateFeatureFlag: async ({ name, namespace, labels, featureSubgraphs }) => {
+      const featureFlag = findFeatureFlag(name, namespace);
+      if (!featureFlag) {
+        return fail(`The feature flag '${name}' was not found in the namespace '${namespace}'.`);
+      }
+      const missingFeatureSubgraphs = findMissingFeatureSubgraphs(featureSubgraphs ?? [], namespace);
+      if (missingFeatureSubgraphs.length > 0) {
+        return fail(`The feature subgraphs ${missingFeatureSubgraphs.join(', ')} were not found.`);
+      }
+      featureFlag.labels = toLabels(labels);
+      featureFlag.featureSubgraphs = featureSubgraphs ?? featureFlag.featureSubgraphs;
+      return success(`The feature flag '${name}' was updated.`);
+    },
+    fetchSubgraphSchema: async ({ name, namespace }) => {
+      const subgraph = findSubgraph(name, namespace);
+      if (!subgraph) {
+        return fail(`The subgraph '${name}' was not found in the namespace '${namespace}'.`);
+      }
+      if (subgraph.schema === undefined) {
+        return fail(`The subgraph '${name}' has no published schema.`);
+      }
+      return { success: true, data: subgraph.schema };
+    },
+    listFeatureFlags: async (namespace) => ({
+      success: true,
+      data: state.featureFlags.filter((featureFlag) => featureFlag.namespace === namespace),
+    }),
+    listSubgraphs: async (namespace) => ({
+      success: true,
+      data: state.subgraphs.filter((subgraph) => subgraph.namespace === namespace),
+    }),
+    listFederatedGraphs: async (namespace) => ({
+      success: true,
+      data: state.federatedGraphs.filter((federatedGraph) => federatedGraph.namespace === namespace),
+    }),
+    deleteSubgraph: async ({ name, namespace }) => {
+      if (!findSubgraph(name, namespace)) {
+        return fail(`The subgraph '${name}' was not found in the namespace '${namespace}'.`);
+      }
+      state.subgraphs = state.subgraphs.filter(
+        (subgraph) => subgraph.name !== name || subgraph.namespace !== namespace,
+      );
+      for (const featureFlag of state.featureFlags) {
+        featureFlag.featureSubgraphs = featureFlag.featureSubgraphs.filter(
+          (featureSubgraph) => featureSubgraph !== name,
+        );
+      }
+      return { success: true, data: undefined };
+    },
+    deleteFeatureFlag: async ({ name, namespace }) => {
+      if (!findFeatureFlag(name, namespace)) {
+        return fail(`The feature flag '${name}' was not found in the namespace '${namespace}'.`);
+      }
+      state.featureFlags = state.featureFlags.filter(
+        (featureFlag) => featureFlag.name !== name || featureFlag.namespace !== namespace,
+      );
+      return { success: true, data: undefined };
+    },
+    setFeatureFlagEnabled: async ({ name, namespace, enabled }) => {
+      const featureFlag = findFeatureFlag(name, namespace);
+      if (!featureFlag) {
+        return fail(`The feature flag '${name}' was not found in the namespace '${namespace}'.`);
+      }
+      featureFlag.isEnabled = enabled;
+      return { success: true, data: undefined };
+    },
+  };
+};
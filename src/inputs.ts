@@ -1,73 +1,192 @@
 import { existsSync, readFileSync } from 'node:fs';
 import * as core from '@actions/core';
-import * as yaml from 'js-yaml';
+import * as github from '@actions/github';
 import { resolve } from 'pathe';
-import { Config, Inputs } from './types.js';
+import { acceptCommand, commandPrefix, getActionTypeOfCommand, parseCommand } from './commands.js';
+import { DraftPullRequests, draftPullRequestsValues, getActionTypeOfEvent } from './events.js';
+import { defaultStudioUrl, resolveStudioUrl } from './links.js';
+import { defaultReadinessTimeoutSeconds } from './readiness.js';
+import { defaultRetryOptions } from './retry.js';
+import { toRepositoryPath } from './schemas.js';
+import { ActionType, Inputs, PreviewCommand, PreviewConfig } from './types.js';
+import { formatConfigIssues, validateConfig } from './validation.js';
 
-export const getInputs = (): Inputs | undefined => {
+/**
+ * Parses and validates the content of a cosmo.yaml file into the preview configuration used by the action.
+ * Throws a single error listing every problem found in the file.
+ */
+export const parseConfig = ({
+  fileContent,
+  source,
+  checkFiles = true,
+}: {
+  fileContent: string;
+  source: string;
+  checkFiles?: boolean;
+}): PreviewConfig => {
+  const { config, issues } = validateConfig({ fileContent, checkFiles });
+  if (!config) {
+    throw new Error(formatConfigIssues({ source, issues }));
+  }
+
+  const namespace = config.namespace;
+  const featureFlags = config.feature_flags;
+  const subgraphs = config.subgraphs.map((subgraph) => {
+    return {
+      name: subgraph.name,
+      schemaPaths: [subgraph.schema_path ?? []].flat().map((schemaPath) => toRepositoryPath(schemaPath)),
+      watchPaths: (subgraph.watch ?? []).map((watchPath) => toRepositoryPath(watchPath)),
+      schemaCommand: subgraph.schema_command,
+      routingUrl: subgraph.routing_url,
+      readiness: subgraph.readiness && {
+        healthPath: subgraph.readiness.health_path,
+        timeoutSeconds: subgraph.readiness.timeout_seconds ?? defaultReadinessTimeoutSeconds,
+      },
+    };
+  });
+
+  return {
+    namespace,
+    triggerLabel: config.trigger_label,
+    smokeTestsPath: config.smoke_tests ? toRepositoryPath(config.smoke_tests.path) : undefined,
+    featureFlags,
+    subgraphs,
+  };
+};
+
+/**
+ * Reads the inputs and the config of the action. Returns `undefined` if the event has nothing to do,
+ * and throws if the inputs or the config are invalid.
+ * The command of a comment is accepted before the config is read, so that only users who may run it get that far.
+ */
+export const getInputs = async (): Promise<Inputs | undefined> => {
   const configPath = core.getInput('config_path') || '.github/cosmo.yaml';
   const cosmoApiKey = core.getInput('cosmo_api_key', { required: true });
   const githubToken = core.getInput('github_token', { required: true });
   const create = core.getInput('create') === 'true';
   const update = core.getInput('update') === 'true';
   const destroy = core.getInput('destroy') === 'true';
+  const cleanup = core.getInput('cleanup') === 'true';
+  const auto = core.getInput('auto') === 'true';
+  const draftPullRequests = (core.getInput('draft_pull_requests') || 'skip') as DraftPullRequests;
+  const dryRun = core.getInput('dry_run') === 'true';
+  const check = core.getInput('check') === 'true';
+  const blockOnBreakingChanges = core.getInput('block_on_breaking_changes') === 'true';
+  const maxRetries = Number(core.getInput('max_retries') || defaultRetryOptions.retries);
+  const retryDelayMs = Number(core.getInput('retry_delay_ms') || defaultRetryOptions.delayMs);
+  const maxConcurrency = Number(core.getInput('max_concurrency') || 4);
+  const routerUrl = core.getInput('router_url') || undefined;
+
+  let studioUrl = resolveStudioUrl({ studioUrl: core.getInput('studio_url') });
+  if (!studioUrl) {
+    core.warning(
+      `Could not derive the Cosmo Studio URL from COSMO_API_URL '${process.env.COSMO_API_URL}', falling back to ${defaultStudioUrl}. Set the studio_url input to link to your Studio.`,
+    );
+    studioUrl = defaultStudioUrl;
+  }
 
   if (!githubToken) {
-    core.setFailed('GITHUB_TOKEN is not available.');
-    return;
+    throw new Error('GITHUB_TOKEN is not available.');
   }
 
-  if (!create && !update && !destroy) {
-    core.setFailed('Please provide at least one action type to perform. Either create, update, or destroy.');
-    return;
+  if (!create && !update && !destroy && !cleanup && !auto) {
+    throw new Error(
+      'Please provide at least one action type to perform. Either create, update, destroy, cleanup, or auto.',
+    );
   }
 
-  // Ensure only one of create, update, or destroy is true
-  const trueCount = [create, update, destroy].filter(Boolean).length;
+  // Ensure only one of create, update, destroy, cleanup, or auto is true
+  const trueCount = [create, update, destroy, cleanup, auto].filter(Boolean).length;
   if (trueCount !== 1) {
-    core.setFailed('Exactly one of "create", "update", or "destroy" must be true.');
-    return;
+    throw new Error('Exactly one of "create", "update", "destroy", "cleanup", or "auto" must be true.');
+  }
+
+  if (!draftPullRequestsValues.includes(draftPullRequests)) {
+    throw new Error(`"draft_pull_requests" must be one of ${draftPullRequestsValues.join(', ')}.`);
+  }
+
+  if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+    throw new Error('"max_retries" must be a non-negative integer.');
+  }
+  if (!Number.isInteger(retryDelayMs) || retryDelayMs < 0) {
+    throw new Error('"retry_delay_ms" must be a non-negative integer.');
+  }
+
+  if (!Number.isInteger(maxConcurrency) || maxConcurrency < 1) {
+    throw new Error('"max_concurrency" must be a positive integer.');
   }
 
-  const actionType = create ? 'create' : update ? 'update' : 'destroy';
+  const retry = { retries: maxRetries, delayMs: retryDelayMs };
+
+  let actionType: ActionType = create ? 'create' : update ? 'update' : destroy ? 'destroy' : 'cleanup';
+  let command: PreviewCommand | undefined;
+  // commands in pull request comments pick the action type themselves, in every mode except cleanup
+  if (github.context.eventName === 'issue_comment' && !cleanup) {
+    if (!github.context.payload.issue?.pull_request) {
+      core.info('The comment is not on a pull request. Nothing to do.');
+      return;
+    }
+    // editing or deleting a comment doesn't run its command again
+    if (github.context.payload.action !== 'created') {
+      core.info(`The comment was ${github.context.payload.action}. Nothing to do.`);
+      return;
+    }
+    const parsed = parseCommand(github.context.payload.comment?.body ?? '');
+    if (!parsed) {
+      core.info(`The comment has no ${commandPrefix} command. Nothing to do.`);
+      return;
+    }
+    if ('error' in parsed) {
+      throw new Error(parsed.error);
+    }
+    // fetches the pull request of the comment, which the trigger label is checked against
+    const accepted = await acceptCommand({ githubToken, retry, context: github.context });
+    if (!accepted) {
+      return;
+    }
+    command = parsed.command;
+    actionType = getActionTypeOfCommand(command);
+    core.info(`Running ${actionType} for the command '${commandPrefix} ${command.name}'.`);
+  }
 
   const inputFile = resolve(process.cwd(), configPath);
 
   if (!existsSync(inputFile)) {
-    core.setFailed(`The input file '${inputFile}' does not exist. Please check the path.`);
-    return;
+    throw new Error(`The input file '${inputFile}' does not exist. Please check the path.`);
   }
 
   const fileContent = readFileSync(inputFile).toString();
-  const config = yaml.load(fileContent) as Config;
 
-  const namespace = config.namespace;
+  const config = parseConfig({ fileContent, source: configPath });
 
-  if (!config.feature_flags || config.feature_flags.length === 0) {
-    core.setFailed(`Please provide at least one feature flag in the config file '${inputFile}'.`);
-    return;
+  if (auto && !command) {
+    const event = getActionTypeOfEvent({
+      eventName: github.context.eventName,
+      payload: github.context.payload,
+      draftPullRequests,
+      triggerLabel: config.triggerLabel,
+    });
+    if ('reason' in event) {
+      core.info(`Nothing to do in auto mode, as ${event.reason}.`);
+      return;
+    }
+    core.info(`Running ${event.actionType} for the pull request action '${github.context.payload.action}'.`);
+    actionType = event.actionType;
   }
-  const featureFlags = config.feature_flags;
-
-  if (!config.subgraphs || config.subgraphs.length === 0) {
-    core.setFailed(`Please provide at least one subgraph in the config file '${inputFile}'.`);
-    return;
-  }
-  const subgraphs = config.subgraphs.map((subgraph) => {
-    return {
-      name: subgraph.name,
-      schemaPath: resolve(process.cwd(), subgraph.schema_path),
-      routingUrl: subgraph.routing_url,
-    };
-  });
 
   return {
     actionType,
     cosmoApiKey,
     githubToken,
-    namespace,
-    featureFlags,
-    subgraphs,
+    ...config,
     configPath,
+    dryRun,
+    check,
+    blockOnBreakingChanges,
+    retry,
+    maxConcurrency,
+    studioUrl,
+    routerUrl,
+    command,
   };
 };
@@ -0,0 +1,63 @@
+export const defaultStudioUrl = 'https://cosmo.wundergraph.com';
+
+export const featureFlagDocsUrl =
+  'https://cosmo-docs.wundergraph.com/tutorial/gradual-and-experimental-feature-rollout-with-feature-flags#using-cosmo-router-to-serve-the-feature-flag-to-clients';
+
+/**
+ * Resolves the base URL of Cosmo Studio. In order of precedence: the `studio_url` input, the `COSMO_WEB_URL`
+ * environment variable wgc uses for its own links, the URL derived from the control plane URL in `COSMO_API_URL`,
+ * e.g. `https://cosmo-cp.example.com` becomes `https://cosmo.example.com`, and the Studio of Cosmo Cloud.
+ * Returns undefined if a self-hosted control plane is used whose Studio URL can't be derived.
+ */
+export const resolveStudioUrl = ({
+  studioUrl,
+  env = process.env,
+}: {
+  studioUrl?: string;
+  env?: NodeJS.ProcessEnv;
+}): string | undefined => {
+  const url = studioUrl || env.COSMO_WEB_URL;
+  if (url) {
+    return url.replace(/\/+$/, '');
+  }
+  if (!env.COSMO_API_URL) {
+    return defaultStudioUrl;
+  }
+
+  let apiUrl: URL;
+  try {
+    apiUrl = new URL(env.COSMO_API_URL);
+  } catch {
+    return;
+  }
+  if (!apiUrl.hostname.startsWith('cosmo-cp.')) {
+    return;
+  }
+  return `${apiUrl.protocol}//${apiUrl.host.replace(/^cosmo-cp\./, 'cosmo.')}`;
+};
+
+export type StudioLinks = {
+  featureFlag: (name: string) => string;
+  subgraph: (name: string) => string;
+  compositions: (federatedGraphName: string) => string;
+};
+
+/**
+ * Builds the links to the pages of Cosmo Studio for the resources of a namespace.
+ */
+export const createStudioLinks = ({
+  studioUrl,
+  organizationSlug,
+  namespace,
+}: {
+  studioUrl: string;
+  organizationSlug: string;
+  namespace: string;
+}): StudioLinks => {
+  const graphUrl = (name: string) => `${studioUrl}/${organizationSlug}/${namespace}/graph/${name}`;
+  return {
+    featureFlag: (name) => `${studioUrl}/${organizationSlug}/feature-flags/${name}?namespace=${namespace}`,
+    subgraph: (name) => `${studioUrl}/${organizationSlug}/${namespace}/subgraph/${name}`,
+    compositions: (federatedGraphName) => `${graphUrl(federatedGraphName)}/compositions`,
+  };
+};
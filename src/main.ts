@@ -1,105 +1,235 @@
-/* eslint-disable no-template-curly-in-string */
-import { resolve } from 'node:path';
+import { relative, resolve } from 'node:path';
 import * as core from '@actions/core';
-import * as exec from '@actions/exec';
 import * as github from '@actions/github';
 
 import { SubgraphCommandJsonOutput, WhoAmICommandJsonOutput } from 'wgc/dist/core/types/types.js';
 
 import { Context } from '@actions/github/lib/context.js';
-import { getInputs } from './inputs.js';
-import { addComment } from './utils.js';
+import { getInputs, parseConfig } from './inputs.js';
+import {
+  addComment,
+  addConfigComment,
+  addPlanComment,
+  getLastDeployedSha,
+  getPullRequestState,
+  renderCleanupReport,
+  renderPlan,
+} from './utils.js';
 import {
   getChangedFilesFromGithubAPI,
+  getCosmoConfigAtRef,
   getFilteredChangedFiles,
+  getLastSyncedRef,
   getRemovedGraphQLFilesInLastCommit,
-  hasCosmoConfigChangedInLastCommit,
 } from './githubFiles.js';
-import { FeatureSubgraphsOutputConfig, Inputs } from './types.js';
+import { deletePreviewResources, getPreviewResources, getPreviewResourcesByPr } from './resources.js';
+import { diffConfigs, hasConfigChanges, reconcileConfigChanges } from './reconcile.js';
+import { hasBreakingChanges } from './checks.js';
+import { publishCheckRuns } from './checkRuns.js';
+import { isCommandSuccessful, renderCommandResult, replyToCommand } from './commands.js';
+import { mapWithConcurrency } from './concurrency.js';
+import { CosmoClient, CosmoError, CosmoResult, createCosmoClient, unwrapResult } from './cosmoClient.js';
+import { getTriggerLabelSkipReason } from './events.js';
+import { deactivateDeployments, setDeploymentStatus, startDeployment } from './deployments.js';
+import { createFeatureFlagSubgraphMatcher } from './featureFlags.js';
+import { createStudioLinks } from './links.js';
+import { getFeatureFlagName, getFeatureSubgraphName } from './naming.js';
+import { getChangedFilePatterns, getSubgraphsOfFiles, isSchemaFileOfSubgraph, prepareSchemaFile } from './schemas.js';
+import { setEmptyOutputs, setOutputs } from './outputs.js';
+import { waitForReadiness } from './readiness.js';
+import { loadSmokeTests, runSmokeTests } from './smokeTests.js';
+import { createRunReport, writeJobSummary } from './summary.js';
+import { getTemplateVariables, resolveRoutingUrl, TemplateVariables } from './templating.js';
+import {
+  ActionType,
+  CleanupReportEntry,
+  FeatureFlag,
+  FeatureSubgraphsOutputConfig,
+  Inputs,
+  Plan,
+  PlanStep,
+  PreviewCommand,
+  ResourceOutcome,
+  RunReport,
+  SmokeTest,
+  SmokeTestResult,
+  Subgraph,
+  SubgraphCheckResult,
+} from './types.js';
 
 /**
  * The main function for the action.
+ * @param options.cosmoClient The client the commands are run with, the wgc CLI by default.
  * @returns {Promise<void>} Resolves when the action is complete.
  */
-export async function run(): Promise<void> {
+export async function run(options: { cosmoClient?: CosmoClient } = {}): Promise<void> {
+  let report: RunReport | undefined;
+  // the inputs of a run triggered by an accepted command, which is replied to once the run is done
+  let commandInputs: Inputs | undefined;
+  // the outputs of a run which ends before it has a report are set from these
+  let actionType: ActionType | undefined;
+  let failure: string | undefined;
   try {
     const context = github.context;
 
+    const inputs = await getInputs();
+    if (!inputs) {
+      return;
+    }
+    actionType = inputs.actionType;
+    if (inputs.command) {
+      commandInputs = inputs;
+    }
+    const skipReason = getTriggerLabelSkipReason({
+      payload: context.payload,
+      actionType: inputs.actionType,
+      triggerLabel: inputs.triggerLabel,
+    });
+    if (skipReason) {
+      core.info(`Skipping the ${inputs.actionType} of the previews, as ${skipReason}.`);
+      if (commandInputs) {
+        commandInputs = undefined;
+        await replyToCommand({
+          githubToken: inputs.githubToken,
+          retry: inputs.retry,
+          context,
+          success: false,
+          message: `the command was skipped, as ${skipReason}.`,
+        });
+      }
+      return;
+    }
+    report = createRunReport({ actionType: inputs.actionType, dryRun: inputs.dryRun });
+    // wgc builds the links of the check results from it
+    core.exportVariable('COSMO_WEB_URL', inputs.studioUrl);
+    const cosmoClient = options.cosmoClient ?? createCosmoClient({ retry: inputs.retry });
+
+    // cleanup runs on a schedule or manually, so it doesn't need a pull request
+    if (inputs.actionType === 'cleanup') {
+      exportApiKey(inputs.cosmoApiKey);
+      await cleanup({ inputs, cosmoClient, report });
+      return;
+    }
+
     const pullRequest = context.payload.pull_request;
     if (!pullRequest) {
-      core.setFailed('This action only works with pull_requests.');
-      return;
+      throw new Error('This action only works with pull_requests.');
     }
 
     const prNumber = pullRequest.number;
+    report.prNumber = prNumber;
 
-    const inputs = getInputs();
-    if (!inputs) {
-      return;
+    const templateVariables = getTemplateVariables({ context, prNumber });
+    if (inputs.actionType === 'create' || inputs.actionType === 'update') {
+      // resolve the routing URLs up front, so that an invalid template fails the run before anything is published
+      inputs.subgraphs = inputs.subgraphs.map((subgraph) => ({
+        ...subgraph,
+        routingUrl: resolveRoutingUrl({ template: subgraph.routingUrl, variables: templateVariables }),
+      }));
     }
 
     exportApiKey(inputs.cosmoApiKey);
-    const organizationDetails = await getOrganizationDetails();
-    if (!organizationDetails) {
-      core.setFailed('Failed to get organization details.');
-      return;
-    }
+    const organizationDetails = await getOrganizationDetails(cosmoClient);
 
-    const changedFiles = await getChangedFilesFromGithubAPI({ githubToken: inputs.githubToken });
+    const changedFiles = await getChangedFilesFromGithubAPI({ githubToken: inputs.githubToken, retry: inputs.retry });
     const changedGraphQLFiles = getFilteredChangedFiles({
       allDiffFiles: changedFiles,
-      filePatterns: ['**/*.graphql', '**/*.gql', '**/*.graphqls'],
+      filePatterns: getChangedFilePatterns(inputs.subgraphs),
     });
 
-    if (inputs.actionType === 'update') {
-      const isCosmoConfigChanged = await hasCosmoConfigChangedInLastCommit({
-        githubToken: inputs.githubToken,
+    report.changedFiles = changedGraphQLFiles.map((file) => ({
+      file,
+      subgraphName:
+        getSubgraphsOfFiles({ subgraphs: inputs.subgraphs, files: [file] })
+          .map((subgraph) => subgraph.name)
+          .join(', ') || undefined,
+    }));
+
+    // in dry run mode, every mutation is recorded in the plan instead of being executed
+    const plan: Plan | undefined = inputs.dryRun
+      ? { actionType: inputs.actionType, changedFiles: report.changedFiles, steps: [] }
+      : undefined;
+    report.plan = plan;
+
+    let reconciledFeatureSubgraphs: FeatureSubgraphsOutputConfig[] = [];
+    // the commands which update the previews only enable or disable their feature flags
+    if (inputs.actionType === 'update' && !inputs.command) {
+      reconciledFeatureSubgraphs = await reconcileWithLastSyncedConfig({
+        inputs,
+        cosmoClient,
         prNumber,
+        templateVariables,
+        report,
+        plan,
       });
-
-      if (isCosmoConfigChanged) {
-        const octokit = github.getOctokit(inputs.githubToken);
-        await octokit.rest.issues.createComment({
-          owner: context.repo.owner,
-          repo: context.repo.repo,
-          issue_number: prNumber,
-          body: `❌  The Cosmo configuration file has been modified. Please close and reopen the pull request. Failing to do so may cause the feature flag to function improperly. Please make sure that the destroy job(triggered when the PR is closed) is completed before reopening the pull request.`,
-        });
-        core.setFailed('Cosmo config file is changed. Please close and reopen the pr.');
-        return;
-      }
     }
 
     switch (inputs.actionType) {
       case 'create': {
         await create({
           inputs,
+          cosmoClient,
           prNumber,
           changedGraphQLFiles,
           context,
           organizationSlug: organizationDetails.organizationSlug,
+          report,
+          plan,
         });
         break;
       }
       case 'update': {
+        if (inputs.command?.name === 'enable' || inputs.command?.name === 'disable') {
+          await setFeatureFlagsEnabled({ inputs, cosmoClient, prNumber, command: inputs.command, report, plan });
+          break;
+        }
         await update({
           inputs,
+          cosmoClient,
           prNumber,
           changedGraphQLFiles,
+          reconciledFeatureSubgraphs,
           context,
           organizationSlug: organizationDetails.organizationSlug,
+          report,
+          plan,
         });
         break;
       }
       case 'destroy': {
-        await destroy({ inputs, prNumber, changedGraphQLFiles });
+        await destroy({ inputs, cosmoClient, prNumber, context, report, plan });
         break;
       }
     }
+
+    if (plan) {
+      core.info(renderPlan(plan));
+      await addPlanComment({ githubToken: inputs.githubToken, retry: inputs.retry, prNumber, plan, context });
+    }
   } catch (error) {
     // Fail the workflow run if an error occurs
     if (error instanceof Error) {
       core.setFailed(error.message);
+      if (report) {
+        report.error = error.message;
+      }
+      failure = error.message;
+    }
+  } finally {
+    if (report) {
+      setOutputs(report);
+      await writeJobSummary(report);
+    } else {
+      setEmptyOutputs({ actionType, status: failure ? 'failed' : 'skipped', error: failure });
+    }
+    if (report && commandInputs?.command) {
+      await replyToCommand({
+        githubToken: commandInputs.githubToken,
+        retry: commandInputs.retry,
+        context: github.context,
+        success: isCommandSuccessful(report),
+        message: renderCommandResult({ command: commandInputs.command, report }),
+      });
     }
   }
 }
@@ -112,286 +242,899 @@ function exportApiKey(apiKey: string) {
   core.info('Environment variable COSMO_API_KEY is set.');
 }
 
-const getOrganizationDetails = async (): Promise<WhoAmICommandJsonOutput | undefined> => {
-  let output = '';
-  let error = '';
-  const options = {
-    listeners: {
-      stdout: (data: Buffer) => {
-        output += data.toString();
-      },
-      stderr: (data: Buffer) => {
-        error += data.toString();
-      },
-    },
-  };
-  await exec.exec(`wgc auth whoami --json`, [], options);
-  if (error) {
-    core.setFailed(error);
+/**
+ * Loads the config file at the given ref, without checking its schema files, which might not exist anymore.
+ * Returns undefined if the file did not exist at that ref or is invalid.
+ */
+const loadConfigAtRef = async ({ inputs, ref }: { inputs: Inputs; ref: string }) => {
+  const configPath = relative(process.cwd(), resolve(process.cwd(), inputs.configPath));
+  const fileContent = await getCosmoConfigAtRef({
+    githubToken: inputs.githubToken,
+    retry: inputs.retry,
+    configPath,
+    ref,
+  });
+  if (!fileContent) {
+    core.info(`The config file '${configPath}' did not exist at ${ref}.`);
     return;
   }
-  return JSON.parse(output);
+
+  try {
+    return parseConfig({ fileContent, source: `${configPath}@${ref}`, checkFiles: false });
+  } catch (error) {
+    core.warning(`Could not parse the config file at ${ref}. ${error instanceof Error ? error.message : ''}`);
+  }
 };
 
-const create = async ({
+/**
+ * Returns the feature flags of the current config and of the configs at the base of the pull request and at its last
+ * successful deployment, so that the previews of feature flags which were since removed from or renamed in the config
+ * are found as well.
+ */
+const getFeatureFlagsOfPr = async ({
   inputs,
   prNumber,
-  changedGraphQLFiles,
-  context,
-  organizationSlug,
+  baseRef,
 }: {
   inputs: Inputs;
   prNumber: number;
-  changedGraphQLFiles: string[];
-  context: Context;
-  organizationSlug: string;
-}): Promise<void> => {
-  // Create the resources
-  const featureSubgraphNames: string[] = [];
-  const deployedFeatureFlags: string[] = [];
-  const featureFlagErrorOutputs: {
-    [key: string]: SubgraphCommandJsonOutput;
-  } = {};
-  const featureSubgraphsToDeploy: FeatureSubgraphsOutputConfig[] = [];
-
-  for (const changedFile of changedGraphQLFiles) {
-    const subgraph = inputs.subgraphs.find((subgraph) => resolve(process.cwd(), changedFile) === subgraph.schemaPath);
-    if (!subgraph) {
-      continue;
+  baseRef?: string;
+}): Promise<FeatureFlag[]> => {
+  const lastDeployedSha = await getLastDeployedSha({
+    githubToken: inputs.githubToken,
+    retry: inputs.retry,
+    prNumber,
+    context: github.context,
+  });
+  const refs = new Set([baseRef, lastDeployedSha].filter((ref) => ref !== undefined));
+
+  const featureFlags = [...inputs.featureFlags];
+  for (const ref of refs) {
+    const config = await loadConfigAtRef({ inputs, ref });
+    for (const featureFlag of config?.featureFlags ?? []) {
+      if (!featureFlags.some(({ name }) => name === featureFlag.name)) {
+        featureFlags.push(featureFlag);
+      }
     }
-    const featureSubgraphName = `${subgraph.name}-${inputs.namespace}-${prNumber}`;
-    const routingURL = subgraph.routingUrl.replaceAll('${PR_NUMBER}', prNumber.toString());
-    const command = `wgc feature-subgraph publish ${featureSubgraphName} --subgraph ${subgraph.name} --routing-url ${routingURL} --schema ${subgraph.schemaPath} -n ${inputs.namespace}`;
-    await exec.exec(command);
-    featureSubgraphNames.push(featureSubgraphName);
-    featureSubgraphsToDeploy.push({
-      featureSubgraphName,
-      schemaPath: subgraph.schemaPath,
-      routingUrl: routingURL,
-      baseSubgraphName: subgraph.name,
-    });
+  }
+  return featureFlags;
+};
+
+/**
+ * Loads the config the previews were last synced with and reconciles the preview resources
+ * with the current config, if the config has changed since then.
+ * @returns the feature subgraphs which were destroyed while reconciling.
+ */
+const reconcileWithLastSyncedConfig = async ({
+  inputs,
+  cosmoClient,
+  prNumber,
+  templateVariables,
+  report,
+  plan,
+}: {
+  inputs: Inputs;
+  cosmoClient: CosmoClient;
+  prNumber: number;
+  templateVariables: TemplateVariables;
+  report: RunReport;
+  plan?: Plan;
+}): Promise<FeatureSubgraphsOutputConfig[]> => {
+  const ref = await getLastSyncedRef({ githubToken: inputs.githubToken, prNumber, retry: inputs.retry });
+  if (!ref) {
+    return [];
+  }
+
+  const previousConfig = await loadConfigAtRef({ inputs, ref });
+  if (!previousConfig) {
+    core.info('Skipping reconciliation, as there is no previous config.');
+    return [];
+  }
+
+  const diff = diffConfigs({ previousConfig, currentConfig: inputs });
+  if (!hasConfigChanges(diff)) {
+    return [];
   }
 
-  core.setOutput('feature_subgraphs_to_deploy', featureSubgraphsToDeploy);
+  core.info('The Cosmo config file has changed since the last sync. Reconciling the preview resources.');
+  const destroyedFeatureSubgraphs = await reconcileConfigChanges({
+    cosmoClient,
+    previousConfig,
+    currentConfig: inputs,
+    diff,
+    prNumber,
+    templateVariables,
+    plan,
+    outcomes: report.outcomes,
+  });
+  if (!plan) {
+    await addConfigComment({
+      githubToken: inputs.githubToken,
+      retry: inputs.retry,
+      prNumber,
+      diff,
+      context: github.context,
+    });
+  }
+  return destroyedFeatureSubgraphs;
+};
 
-  if (featureSubgraphNames.length === 0) {
-    core.info('No subgraphs found to create feature subgraphs.');
+/**
+ * Runs the schema check of the subgraph, if enabled. The result is marked as `blocked` if publishing
+ * the feature subgraph should be skipped because of breaking changes.
+ * A dry run doesn't check, as every check is recorded in Cosmo.
+ */
+const checkBeforePublish = async ({
+  inputs,
+  cosmoClient,
+  subgraph,
+  schemaPath,
+  plan,
+}: {
+  inputs: Inputs;
+  cosmoClient: CosmoClient;
+  subgraph: Subgraph;
+  schemaPath: string;
+  plan?: Plan;
+}): Promise<SubgraphCheckResult | undefined> => {
+  if (!inputs.check || plan) {
     return;
   }
+  const checkResult = await cosmoClient.checkSubgraph({
+    name: subgraph.name,
+    schemaPath,
+    namespace: inputs.namespace,
+  });
+  if (!checkResult.success) {
+    core.warning(`Could not run the check of the subgraph '${subgraph.name}'. ${checkResult.error.message}`);
+  }
+  const result: SubgraphCheckResult = checkResult.success
+    ? checkResult.data
+    : {
+        subgraphName: subgraph.name,
+        success: false,
+        message: checkResult.error.message,
+        breakingChanges: [],
+        compositionErrors: [],
+        lintErrors: [],
+        lintWarnings: [],
+      };
+  if (inputs.blockOnBreakingChanges && hasBreakingChanges(result)) {
+    core.warning(
+      `Breaking changes found in the subgraph '${subgraph.name}'. Skipping publishing its feature subgraph.`,
+    );
+    result.blocked = true;
+  }
+  return result;
+};
 
-  for (const featureFlag of inputs.featureFlags) {
-    const featureFlagName = `${featureFlag.name}-${prNumber}`;
-    const command = `wgc feature-flag create ${featureFlagName} -n ${inputs.namespace} --label ${featureFlag.labels.join(' ')} --feature-subgraphs ${featureSubgraphNames.join(' ')} --enabled --json`;
-    let output = '';
-    let error = '';
-    const options = {
-      listeners: {
-        stdout: (data: Buffer) => {
-          output += data.toString();
-        },
-        stderr: (data: Buffer) => {
-          error += data.toString();
-        },
-      },
+/**
+ * Generates the schemas of the changed subgraphs one at a time, then checks and publishes their feature subgraphs,
+ * `max_concurrency` at a time.
+ * The results are in the order of the subgraphs in the config, regardless of the order the publishes finish in.
+ */
+const publishFeatureSubgraphs = async ({
+  inputs,
+  cosmoClient,
+  subgraphs,
+  prNumber,
+  report,
+  plan,
+}: {
+  inputs: Inputs;
+  cosmoClient: CosmoClient;
+  subgraphs: Subgraph[];
+  prNumber: number;
+  report: RunReport;
+  plan?: Plan;
+}): Promise<{ featureSubgraphs: FeatureSubgraphsOutputConfig[]; checkResults: SubgraphCheckResult[] }> => {
+  // the schema commands may share the build output of the repository
+  const schemaFiles: { schemaPath: string; unchanged: boolean }[] = [];
+  for (const subgraph of subgraphs) {
+    schemaFiles.push(await prepareSchemaFile({ cosmoClient, subgraph, namespace: inputs.namespace }));
+  }
+
+  // recorded at the index of the subgraph, so that the report lists them in the order of the config
+  const unchangedFeatureSubgraphs: (FeatureSubgraphsOutputConfig | undefined)[] = [];
+  const pendingFeatureSubgraphs: (FeatureSubgraphsOutputConfig | undefined)[] = [];
+  const outcomes: (ResourceOutcome | undefined)[] = [];
+  const publish = mapWithConcurrency(subgraphs, inputs.maxConcurrency, async (subgraph, index) => {
+    const { schemaPath, unchanged } = schemaFiles[index];
+    const featureSubgraph: FeatureSubgraphsOutputConfig = {
+      featureSubgraphName: getFeatureSubgraphName({
+        subgraphName: subgraph.name,
+        namespace: inputs.namespace,
+        prNumber,
+      }),
+      schemaPath,
+      routingUrl: subgraph.routingUrl,
+      baseSubgraphName: subgraph.name,
     };
-    await exec.exec(command, [], options);
-    if (error) {
-      const errorJsonOutput: SubgraphCommandJsonOutput = JSON.parse(error);
-      featureFlagErrorOutputs[featureFlagName] = errorJsonOutput;
-      continue;
+    if (unchanged) {
+      core.info(
+        `The generated schema of the subgraph '${subgraph.name}' is identical to the base subgraph. Skipping it.`,
+      );
+      unchangedFeatureSubgraphs[index] = featureSubgraph;
+      return {};
+    }
+    const checkResult = await checkBeforePublish({ inputs, cosmoClient, subgraph, schemaPath, plan });
+    if (checkResult?.blocked) {
+      return { checkResult };
+    }
+    if (
+      !plan &&
+      subgraph.readiness &&
+      !(await waitForReadiness({
+        subgraphName: subgraph.name,
+        routingUrl: subgraph.routingUrl,
+        readiness: subgraph.readiness,
+      }))
+    ) {
+      pendingFeatureSubgraphs[index] = featureSubgraph;
+      return { checkResult };
+    }
+    if (!plan) {
+      const result = await cosmoClient.publishFeatureSubgraph({
+        name: featureSubgraph.featureSubgraphName,
+        baseSubgraphName: subgraph.name,
+        routingUrl: featureSubgraph.routingUrl,
+        schemaPath,
+        namespace: inputs.namespace,
+      });
+      outcomes[index] = toOutcome({
+        operation: 'publish',
+        resourceType: 'feature-subgraph',
+        name: featureSubgraph.featureSubgraphName,
+        result,
+      });
+      unwrapResult(result);
     }
-    if (output) {
-      const jsonOutput: SubgraphCommandJsonOutput = JSON.parse(output);
-      if (jsonOutput.status === 'success') {
-        deployedFeatureFlags.push(featureFlagName);
-      } else {
-        featureFlagErrorOutputs[featureFlagName] = jsonOutput;
+    return { checkResult, featureSubgraph };
+  });
+  // a failed publish fails the run, the subgraphs handled until then are still reported
+  const results = await publish.finally(() => {
+    report.unchangedFeatureSubgraphs.push(...unchangedFeatureSubgraphs.filter((item) => item !== undefined));
+    report.pendingFeatureSubgraphs.push(...pendingFeatureSubgraphs.filter((item) => item !== undefined));
+    report.outcomes.push(...outcomes.filter((outcome) => outcome !== undefined));
+  });
+
+  const featureSubgraphs = results.flatMap((result) => (result.featureSubgraph ? [result.featureSubgraph] : []));
+  report.featureSubgraphsToDeploy.push(...featureSubgraphs);
+  plan?.steps.push(
+    ...featureSubgraphs.map((featureSubgraph): PlanStep => ({
+      operation: 'publish',
+      resourceType: 'feature-subgraph',
+      name: featureSubgraph.featureSubgraphName,
+      namespace: inputs.namespace,
+      baseSubgraphName: featureSubgraph.baseSubgraphName,
+      schemaPath: featureSubgraph.schemaPath,
+      routingUrl: featureSubgraph.routingUrl,
+    })),
+  );
+  return {
+    featureSubgraphs,
+    checkResults: results.flatMap((result) => (result.checkResult ? [result.checkResult] : [])),
+  };
+};
+
+// the run fails with the error of wgc, e.g. an invalid API key, which is reported once by the caller
+const getOrganizationDetails = async (cosmoClient: CosmoClient): Promise<WhoAmICommandJsonOutput> => {
+  const result = await cosmoClient.whoami();
+  if (!result.success) {
+    throw new Error(`Failed to get the organization details. ${result.error.message}`);
+  }
+  return result.data;
+};
+
+// the comment renders the json output of the failed command, which is missing if the command didn't print one
+const toFeatureFlagErrorOutput = (error: CosmoError): SubgraphCommandJsonOutput => {
+  return error.output ?? { status: 'error', message: error.message, compositionErrors: [], deploymentErrors: [] };
+};
+
+const toOutcome = ({
+  result,
+  ...step
+}: Omit<ResourceOutcome, 'success' | 'message'> & { result: CosmoResult<unknown> }): ResourceOutcome => {
+  return result.success ? { ...step, success: true } : { ...step, success: false, message: result.error.message };
+};
+
+/**
+ * Completes the deployment of a feature flag with the result of creating or updating it in Cosmo.
+ * The environment links to the router if its URL is configured, and to the feature flag in Cosmo Studio otherwise.
+ */
+const completeDeployment = async ({
+  inputs,
+  context,
+  deploymentId,
+  featureFlagName,
+  organizationSlug,
+  result,
+}: {
+  inputs: Inputs;
+  context: Context;
+  deploymentId: number;
+  featureFlagName: string;
+  organizationSlug: string;
+  result: CosmoResult<SubgraphCommandJsonOutput>;
+}) => {
+  const links = createStudioLinks({ studioUrl: inputs.studioUrl, organizationSlug, namespace: inputs.namespace });
+  const errorOutput = result.success ? undefined : toFeatureFlagErrorOutput(result.error);
+  await setDeploymentStatus({
+    githubToken: inputs.githubToken,
+    retry: inputs.retry,
+    context,
+    deploymentId,
+    state: errorOutput ? 'failure' : 'success',
+    description: errorOutput
+      ? (errorOutput.compositionErrors?.find((error) => error.featureFlag === featureFlagName)?.message ??
+        errorOutput.message)
+      : `The feature flag ${featureFlagName} has been deployed`,
+    environmentUrl: inputs.routerUrl ?? links.featureFlag(featureFlagName),
+  });
+};
+
+/**
+ * Runs the smoke tests of the config against the router for the deployed feature flags.
+ * They are skipped with a warning if the router URL isn't set, and fail for every feature flag if they can't be loaded.
+ */
+const runSmokeTestsOfFeatureFlags = async ({
+  inputs,
+  featureFlagNames,
+}: {
+  inputs: Inputs;
+  featureFlagNames: string[];
+}): Promise<SmokeTestResult[]> => {
+  const { smokeTestsPath, routerUrl, retry } = inputs;
+  if (!smokeTestsPath || featureFlagNames.length === 0) {
+    return [];
+  }
+  if (!routerUrl) {
+    core.warning('The smoke tests are skipped, as the router_url input is not set.');
+    return [];
+  }
+  let smokeTests: SmokeTest[];
+  try {
+    smokeTests = loadSmokeTests(smokeTestsPath);
+  } catch (error) {
+    // the feature flags are deployed already, so the comment and the check runs still report them
+    const message = error instanceof Error ? error.message : String(error);
+    core.warning(`Could not load the smoke tests. ${message}`);
+    return featureFlagNames.map((featureFlagName) => ({
+      featureFlagName,
+      name: smokeTestsPath,
+      passed: false,
+      message,
+      diff: [],
+    }));
+  }
+  core.info(`Running ${smokeTests.length} smoke tests for the feature flags ${featureFlagNames.join(', ')}.`);
+  return await runSmokeTests({ routerUrl, featureFlagNames, smokeTests, retry });
+};
+
+/**
+ * Creates a feature flag per feature flag of the config with the given feature subgraphs it covers, and records the
+ * results in the report. A feature flag which a previous run or attempt created already is updated instead.
+ */
+const deployFeatureFlags = async ({
+  inputs,
+  cosmoClient,
+  prNumber,
+  featureSubgraphs,
+  context,
+  organizationSlug,
+  report,
+  plan,
+}: {
+  inputs: Inputs;
+  cosmoClient: CosmoClient;
+  prNumber: number;
+  featureSubgraphs: FeatureSubgraphsOutputConfig[];
+  context: Context;
+  organizationSlug: string;
+  report: RunReport;
+  plan?: Plan;
+}): Promise<void> => {
+  const {
+    deployedFeatureFlags,
+    featureFlagErrorOutputs,
+    featureSubgraphsByFlag,
+    skippedFeatureFlags,
+    outcomes,
+    pendingFeatureSubgraphs,
+  } = report;
+  const coversSubgraph = await createFeatureFlagSubgraphMatcher({
+    cosmoClient,
+    namespace: inputs.namespace,
+    featureFlags: inputs.featureFlags,
+  });
+  // fetching all the feature flags in the namespace once, to check which of the feature flags exist already
+  const existingFeatureFlags = unwrapResult(await cosmoClient.listFeatureFlags(inputs.namespace));
+  for (const featureFlag of inputs.featureFlags) {
+    const featureFlagName = getFeatureFlagName({ name: featureFlag.name, prNumber });
+    // only attach the changed feature subgraphs the feature flag covers
+    const flagFeatureSubgraphs = featureSubgraphs.filter((featureSubgraph) =>
+      coversSubgraph(featureFlag, featureSubgraph.baseSubgraphName),
+    );
+    const flagFeatureSubgraphNames = flagFeatureSubgraphs.map((featureSubgraph) => featureSubgraph.featureSubgraphName);
+    if (flagFeatureSubgraphNames.length === 0) {
+      // the feature flag is deployed by a later run, once its subgraphs are ready
+      if (
+        pendingFeatureSubgraphs.some((featureSubgraph) => coversSubgraph(featureFlag, featureSubgraph.baseSubgraphName))
+      ) {
+        core.info(`The subgraphs of the feature flag '${featureFlag.name}' are not ready yet. Skipping it.`);
+        continue;
       }
+      core.info(`None of the changed subgraphs are covered by the feature flag '${featureFlag.name}'. Skipping it.`);
+      skippedFeatureFlags.push(featureFlagName);
+      continue;
+    }
+    featureSubgraphsByFlag[featureFlagName] = flagFeatureSubgraphs;
+    const featureFlagExists = existingFeatureFlags.some((flag) => flag.name === featureFlagName);
+    const operation = featureFlagExists ? 'update' : 'create';
+    if (plan) {
+      plan.steps.push({
+        operation,
+        resourceType: 'feature-flag',
+        name: featureFlagName,
+        namespace: inputs.namespace,
+        labels: featureFlag.labels,
+        featureSubgraphs: flagFeatureSubgraphNames,
+      });
+      continue;
+    }
+
+    const featureFlagParams = {
+      name: featureFlagName,
+      namespace: inputs.namespace,
+      labels: featureFlag.labels,
+      featureSubgraphs: flagFeatureSubgraphNames,
+    };
+    const deploymentId = await startDeployment({
+      githubToken: inputs.githubToken,
+      retry: inputs.retry,
+      context,
+      featureFlagName,
+    });
+    const result = featureFlagExists
+      ? await cosmoClient.updateFeatureFlag(featureFlagParams)
+      : await cosmoClient.createFeatureFlag({ ...featureFlagParams, enabled: true });
+    outcomes.push(toOutcome({ operation, resourceType: 'feature-flag', name: featureFlagName, result }));
+    if (result.success) {
+      deployedFeatureFlags.push(featureFlagName);
+    } else {
+      featureFlagErrorOutputs[featureFlagName] = toFeatureFlagErrorOutput(result.error);
+    }
+    if (deploymentId) {
+      await completeDeployment({ inputs, context, deploymentId, featureFlagName, organizationSlug, result });
     }
   }
+};
 
-  await addComment({
+/**
+ * Reports the previews of the run in the check runs and, unless `comment` is false, in the pull request comment.
+ */
+const reportPreviews = async ({
+  inputs,
+  prNumber,
+  context,
+  organizationSlug,
+  report,
+  comment = true,
+}: {
+  inputs: Inputs;
+  prNumber: number;
+  context: Context;
+  organizationSlug: string;
+  report: RunReport;
+  comment?: boolean;
+}): Promise<void> => {
+  const {
+    deployedFeatureFlags,
+    featureFlagErrorOutputs,
+    featureSubgraphsByFlag,
+    skippedFeatureFlags,
+    checkResults,
+    pendingFeatureSubgraphs,
+    smokeTestResults,
+  } = report;
+  if (comment) {
+    await addComment({
+      githubToken: inputs.githubToken,
+      retry: inputs.retry,
+      prNumber,
+      deployedFeatureFlags,
+      featureSubgraphsByFlag,
+      skippedFeatureFlags,
+      featureFlagErrorOutputs,
+      checkResults,
+      pendingFeatureSubgraphs,
+      smokeTestResults,
+      context,
+      organizationSlug,
+      namespace: inputs.namespace,
+      studioUrl: inputs.studioUrl,
+      routerUrl: inputs.routerUrl,
+    });
+  }
+  await publishCheckRuns({
     githubToken: inputs.githubToken,
-    prNumber,
+    retry: inputs.retry,
+    context,
     deployedFeatureFlags,
-    featureSubgraphs: featureSubgraphNames,
     featureFlagErrorOutputs,
+    featureSubgraphsByFlag,
+    subgraphs: inputs.subgraphs,
+    checkResults,
+    pendingFeatureSubgraphs,
+    smokeTestResults,
+  });
+};
+
+/**
+ * Publishes the feature subgraphs of the changed subgraphs and deploys the feature flags covering them, then runs the
+ * smoke tests and reports the previews. These are the steps create and update share.
+ */
+const deployPreviews = async ({
+  inputs,
+  cosmoClient,
+  prNumber,
+  changedGraphQLFiles,
+  context,
+  organizationSlug,
+  report,
+  plan,
+}: {
+  inputs: Inputs;
+  cosmoClient: CosmoClient;
+  prNumber: number;
+  changedGraphQLFiles: string[];
+  context: Context;
+  organizationSlug: string;
+  report: RunReport;
+  plan?: Plan;
+}): Promise<void> => {
+  // a subgraph is changed if any of its schema files is changed
+  const { featureSubgraphs, checkResults } = await publishFeatureSubgraphs({
+    inputs,
+    cosmoClient,
+    subgraphs: getSubgraphsOfFiles({ subgraphs: inputs.subgraphs, files: changedGraphQLFiles }),
+    prNumber,
+    report,
+    plan,
+  });
+  report.checkResults.push(...checkResults);
+
+  if (featureSubgraphs.length === 0) {
+    core.info('No changed subgraphs found to deploy feature subgraphs for.');
+    if (!plan) {
+      await reportPreviews({
+        inputs,
+        prNumber,
+        context,
+        organizationSlug,
+        report,
+        // the comment only explains why nothing was deployed
+        comment: checkResults.some((result) => result.blocked) || report.pendingFeatureSubgraphs.length > 0,
+      });
+    }
+    return;
+  }
+
+  await deployFeatureFlags({
+    inputs,
+    cosmoClient,
+    prNumber,
+    featureSubgraphs,
     context,
     organizationSlug,
-    namespace: inputs.namespace,
+    report,
+    plan,
   });
+  if (plan) {
+    return;
+  }
+
+  report.smokeTestResults.push(
+    ...(await runSmokeTestsOfFeatureFlags({ inputs, featureFlagNames: report.deployedFeatureFlags })),
+  );
+  await reportPreviews({ inputs, prNumber, context, organizationSlug, report });
 };
 
-const update = async ({
+/**
+ * Publishes the feature subgraphs of the changed subgraphs and creates a feature flag per feature flag of the config
+ * with the feature subgraphs it covers, then reports them in the pull request comment and the check runs.
+ */
+export const create = async ({
   inputs,
+  cosmoClient,
   prNumber,
   changedGraphQLFiles,
   context,
   organizationSlug,
+  report,
+  plan,
 }: {
   inputs: Inputs;
+  cosmoClient: CosmoClient;
   prNumber: number;
   changedGraphQLFiles: string[];
   context: Context;
   organizationSlug: string;
+  report: RunReport;
+  plan?: Plan;
 }): Promise<void> => {
-  // Update the resources
-  const featureSubgraphNames: string[] = [];
-  const deployedFeatureFlags: string[] = [];
-  const featureFlagErrorOutputs: {
-    [key: string]: SubgraphCommandJsonOutput;
-  } = {};
-  const featureSubgraphsToDeploy: FeatureSubgraphsOutputConfig[] = [];
-  const featureSubgraphsToDestroy: FeatureSubgraphsOutputConfig[] = [];
+  await deployPreviews({ inputs, cosmoClient, prNumber, changedGraphQLFiles, context, organizationSlug, report, plan });
+};
 
+/**
+ * Deletes the feature subgraphs whose changes were reverted in the last commit, publishes the changed ones again and
+ * creates or updates the feature flags with them, then reports them like create.
+ */
+export const update = async ({
+  inputs,
+  cosmoClient,
+  prNumber,
+  changedGraphQLFiles,
+  reconciledFeatureSubgraphs,
+  context,
+  organizationSlug,
+  report,
+  plan,
+}: {
+  inputs: Inputs;
+  cosmoClient: CosmoClient;
+  prNumber: number;
+  changedGraphQLFiles: string[];
+  reconciledFeatureSubgraphs: FeatureSubgraphsOutputConfig[];
+  context: Context;
+  organizationSlug: string;
+  report: RunReport;
+  plan?: Plan;
+}): Promise<void> => {
   const removedGraphQLFiles = await getRemovedGraphQLFilesInLastCommit({
     githubToken: inputs.githubToken,
+    retry: inputs.retry,
     prNumber,
     changedGraphQLFilesInPr: changedGraphQLFiles,
+    filePatterns: getChangedFilePatterns(inputs.subgraphs),
   });
 
-  // delete feature subgraphs which were removed in the last commit
-  for (const removedFile of removedGraphQLFiles) {
-    const subgraph = inputs.subgraphs.find((subgraph) => resolve(process.cwd(), removedFile) === subgraph.schemaPath);
-    if (!subgraph) {
-      continue;
-    }
-    const featureSubgraphName = `${subgraph.name}-${inputs.namespace}-${prNumber}`;
-    const routingURL = subgraph.routingUrl.replaceAll('${PR_NUMBER}', prNumber.toString());
-    const command = `wgc subgraph delete ${featureSubgraphName} -n ${inputs.namespace} -f`;
-    await exec.exec(command);
-    featureSubgraphsToDestroy.push({
-      featureSubgraphName,
-      schemaPath: subgraph.schemaPath,
-      routingUrl: routingURL,
-      baseSubgraphName: subgraph.name,
-    });
+  // delete feature subgraphs whose changes were removed in the last commit,
+  // unless another one of their schema files is still changed in the PR
+  const removedSubgraphs = getSubgraphsOfFiles({ subgraphs: inputs.subgraphs, files: removedGraphQLFiles }).filter(
+    (subgraph) => !changedGraphQLFiles.some((file) => isSchemaFileOfSubgraph(subgraph, file)),
+  );
+  const removedFeatureSubgraphs = removedSubgraphs.map((subgraph): FeatureSubgraphsOutputConfig => ({
+    featureSubgraphName: getFeatureSubgraphName({ subgraphName: subgraph.name, namespace: inputs.namespace, prNumber }),
+    schemaPath: subgraph.schemaPaths.join(', '),
+    routingUrl: subgraph.routingUrl,
+    baseSubgraphName: subgraph.name,
+  }));
+  if (plan) {
+    plan.steps.push(
+      ...removedFeatureSubgraphs.map((featureSubgraph): PlanStep => ({
+        operation: 'delete',
+        resourceType: 'feature-subgraph',
+        name: featureSubgraph.featureSubgraphName,
+        namespace: inputs.namespace,
+        baseSubgraphName: featureSubgraph.baseSubgraphName,
+      })),
+    );
+  } else {
+    const deleteOutcomes = await mapWithConcurrency(
+      removedFeatureSubgraphs,
+      inputs.maxConcurrency,
+      async ({ featureSubgraphName }) => {
+        const result = await cosmoClient.deleteSubgraph({ name: featureSubgraphName, namespace: inputs.namespace });
+        if (!result.success) {
+          // e.g. it was already deleted by a previous attempt of the run
+          core.warning(`Failed to delete the feature subgraph '${featureSubgraphName}'. ${result.error.message}`);
+        }
+        return toOutcome({ operation: 'delete', resourceType: 'feature-subgraph', name: featureSubgraphName, result });
+      },
+    );
+    report.outcomes.push(...deleteOutcomes);
+  }
+  report.destroyedFeatureSubgraphs.push(...reconciledFeatureSubgraphs, ...removedFeatureSubgraphs);
+
+  await deployPreviews({ inputs, cosmoClient, prNumber, changedGraphQLFiles, context, organizationSlug, report, plan });
+};
+
+/**
+ * Enables or disables the feature flags of the PR for the `enable` and `disable` commands: the feature flag named by
+ * the command, either by its name in the config or in Cosmo, or all of them.
+ */
+const setFeatureFlagsEnabled = async ({
+  inputs,
+  cosmoClient,
+  prNumber,
+  command,
+  report,
+  plan,
+}: {
+  inputs: Inputs;
+  cosmoClient: CosmoClient;
+  prNumber: number;
+  command: PreviewCommand;
+  report: RunReport;
+  plan?: Plan;
+}): Promise<void> => {
+  const enabled = command.name === 'enable';
+  const operation = enabled ? 'enable' : 'disable';
+  const featureFlagNames = inputs.featureFlags.map((featureFlag) =>
+    getFeatureFlagName({ name: featureFlag.name, prNumber }),
+  );
+  const { featureFlag } = command;
+  const namesToSet = featureFlag
+    ? featureFlagNames.filter(
+        (name) => name === featureFlag || name === getFeatureFlagName({ name: featureFlag, prNumber }),
+      )
+    : featureFlagNames;
+  if (namesToSet.length === 0) {
+    throw new Error(
+      `The feature flag '${featureFlag}' is not a feature flag of the pull request. The feature flags are: ${featureFlagNames.join(', ')}.`,
+    );
   }
 
-  for (const changedFile of changedGraphQLFiles) {
-    const subgraph = inputs.subgraphs.find((subgraph) => resolve(process.cwd(), changedFile) === subgraph.schemaPath);
-    if (!subgraph) {
+  for (const name of namesToSet) {
+    if (plan) {
+      plan.steps.push({ operation, resourceType: 'feature-flag', name, namespace: inputs.namespace });
       continue;
     }
-    const featureSubgraphName = `${subgraph.name}-${inputs.namespace}-${prNumber}`;
-    const routingURL = subgraph.routingUrl.replaceAll('${PR_NUMBER}', prNumber.toString());
-    const command = `wgc feature-subgraph publish ${featureSubgraphName} --subgraph ${subgraph.name} --routing-url ${routingURL} --schema ${subgraph.schemaPath} -n ${inputs.namespace}`;
-    await exec.exec(command);
-    featureSubgraphNames.push(featureSubgraphName);
-    featureSubgraphsToDeploy.push({
-      featureSubgraphName,
-      schemaPath: subgraph.schemaPath,
-      routingUrl: routingURL,
-      baseSubgraphName: subgraph.name,
-    });
+    const result = await cosmoClient.setFeatureFlagEnabled({ name, namespace: inputs.namespace, enabled });
+    report.outcomes.push(toOutcome({ operation, resourceType: 'feature-flag', name, result }));
+    if (result.success) {
+      core.info(`The feature flag '${name}' has been ${enabled ? 'enabled' : 'disabled'}.`);
+    } else {
+      report.featureFlagErrorOutputs[name] = toFeatureFlagErrorOutput(result.error);
+    }
   }
+};
 
-  core.setOutput('feature_subgraphs_to_deploy', featureSubgraphsToDeploy);
-  core.setOutput('feature_subgraphs_to_destroy', featureSubgraphsToDestroy);
+/**
+ * Deletes every feature flag and feature subgraph Cosmo holds for the pull request and deactivates their deployments.
+ */
+export const destroy = async ({
+  inputs,
+  cosmoClient,
+  prNumber,
+  context,
+  report,
+  plan,
+}: {
+  inputs: Inputs;
+  cosmoClient: CosmoClient;
+  prNumber: number;
+  context: Context;
+  report: RunReport;
+  plan?: Plan;
+}): Promise<void> => {
+  // Look up everything Cosmo holds for the PR, instead of relying on the changed files of the PR
+  const featureFlags = await getFeatureFlagsOfPr({
+    inputs,
+    prNumber,
+    baseRef: context.payload.pull_request?.base?.sha,
+  });
+  const resources = await getPreviewResources({
+    cosmoClient,
+    namespace: inputs.namespace,
+    featureFlags,
+    subgraphs: inputs.subgraphs,
+    prNumber,
+  });
+  core.info(
+    `Found ${resources.featureFlags.length} feature flags and ${resources.featureSubgraphs.length} feature subgraphs for the pull request #${prNumber}.`,
+  );
 
-  if (featureSubgraphNames.length === 0) {
-    core.info('No changes found in subgraphs to update feature subgraphs.');
+  if (plan) {
+    plan.steps.push(
+      ...resources.featureFlags.map((name): PlanStep => ({
+        operation: 'delete',
+        resourceType: 'feature-flag',
+        name,
+        namespace: inputs.namespace,
+      })),
+      ...resources.featureSubgraphs.map((featureSubgraph): PlanStep => ({
+        operation: 'delete',
+        resourceType: 'feature-subgraph',
+        name: featureSubgraph.featureSubgraphName,
+        namespace: inputs.namespace,
+        baseSubgraphName: featureSubgraph.baseSubgraphName,
+        routingUrl: featureSubgraph.routingUrl,
+      })),
+    );
     return;
   }
 
-  for (const featureFlag of inputs.featureFlags) {
-    const featureFlagName = `${featureFlag.name}-${prNumber}`;
-    let commandName = 'update';
-    const listCommand = `wgc feature-flag list -n ${inputs.namespace} --json`;
-    let listOutput = '';
-    const listOptions = {
-      listeners: {
-        stdout: (data: Buffer) => {
-          listOutput += data.toString();
-        },
-      },
-    };
-    // fetching all the feature flags in the namesapce to check if the feature flag exists or not
-    await exec.exec(listCommand, [], listOptions);
-
-    if (listOutput) {
-      const jsonOutput = JSON.parse(listOutput);
-      const featureFlagExists = jsonOutput.find((flag: { name: string }) => flag.name === featureFlagName);
-      if (!featureFlagExists) {
-        commandName = 'create';
-      }
-    }
-
-    const command = `wgc feature-flag ${commandName} ${featureFlagName} -n ${inputs.namespace} --label ${featureFlag.labels.join(' ')} --feature-subgraphs ${featureSubgraphNames.join(' ')} --json`;
-
-    let output = '';
-    let error = '';
-    const options = {
-      listeners: {
-        stdout: (data: Buffer) => {
-          output += data.toString();
-        },
-        stderr: (data: Buffer) => {
-          error += data.toString();
-        },
-      },
-    };
-
-    await exec.exec(command, [], options);
-
-    if (error) {
-      const errorJsonOutput: SubgraphCommandJsonOutput = JSON.parse(error);
-      featureFlagErrorOutputs[featureFlagName] = errorJsonOutput;
-      continue;
-    }
-    if (output) {
-      const jsonOutput: SubgraphCommandJsonOutput = JSON.parse(output);
-      if (jsonOutput.status === 'success') {
-        deployedFeatureFlags.push(featureFlagName);
-      } else {
-        featureFlagErrorOutputs[featureFlagName] = jsonOutput;
-      }
-    }
-  }
+  // Destroy the resources
+  const featureSubgraphsToDestroy = await deletePreviewResources({
+    cosmoClient,
+    namespace: inputs.namespace,
+    resources,
+    subgraphs: inputs.subgraphs,
+    concurrency: inputs.maxConcurrency,
+    outcomes: report.outcomes,
+  });
+  report.destroyedFeatureSubgraphs.push(...featureSubgraphsToDestroy);
 
-  await addComment({
+  // the feature flags of the configs are included, in case a previous attempt deleted them before deactivating the deployments
+  const featureFlagNames = new Set([
+    ...resources.featureFlags,
+    ...featureFlags.map((featureFlag) => getFeatureFlagName({ name: featureFlag.name, prNumber })),
+  ]);
+  await deactivateDeployments({
     githubToken: inputs.githubToken,
-    prNumber,
-    deployedFeatureFlags,
-    featureSubgraphs: featureSubgraphNames,
-    featureFlagErrorOutputs,
+    retry: inputs.retry,
     context,
-    organizationSlug,
-    namespace: inputs.namespace,
+    featureFlagNames: [...featureFlagNames],
   });
 };
 
-const destroy = async ({
+const cleanup = async ({
   inputs,
-  prNumber,
-  changedGraphQLFiles,
+  cosmoClient,
+  report: runReport,
 }: {
   inputs: Inputs;
-  prNumber: number;
-  changedGraphQLFiles: string[];
+  cosmoClient: CosmoClient;
+  report: RunReport;
 }): Promise<void> => {
+  const report: CleanupReportEntry[] = [];
   const featureSubgraphsToDestroy: FeatureSubgraphsOutputConfig[] = [];
-  // Destroy the resources
-  for (const featureFlag of inputs.featureFlags) {
-    const featureFlagName = `${featureFlag.name}-${prNumber}`;
-    const command = `wgc feature-flag delete ${featureFlagName} -n ${inputs.namespace} -f`;
-    await exec.exec(command);
-  }
-  for (const changedFile of changedGraphQLFiles) {
-    const subgraph = inputs.subgraphs.find((subgraph) => resolve(process.cwd(), changedFile) === subgraph.schemaPath);
-    if (!subgraph) {
+
+  const resourcesByPr = await getPreviewResourcesByPr({
+    cosmoClient,
+    namespace: inputs.namespace,
+    featureFlags: inputs.featureFlags,
+    subgraphs: inputs.subgraphs,
+  });
+  const prNumbers = [...resourcesByPr.keys()].sort((a, b) => a - b);
+
+  for (const prNumber of prNumbers) {
+    let resources = resourcesByPr.get(prNumber)!;
+    const state = await getPullRequestState({ githubToken: inputs.githubToken, retry: inputs.retry, prNumber });
+    if (state === 'closed') {
+      // the feature flags which were removed from the config since the PR was deployed are only known to its configs
+      const featureFlags = await getFeatureFlagsOfPr({ inputs, prNumber });
+      if (featureFlags.length > inputs.featureFlags.length) {
+        resources = await getPreviewResources({
+          cosmoClient,
+          namespace: inputs.namespace,
+          featureFlags,
+          subgraphs: inputs.subgraphs,
+          prNumber,
+        });
+      }
+    }
+    const entry: CleanupReportEntry = {
+      prNumber,
+      state,
+      featureFlags: resources.featureFlags,
+      featureSubgraphs: resources.featureSubgraphs.map((featureSubgraph) => featureSubgraph.featureSubgraphName),
+      deleted: false,
+    };
+    report.push(entry);
+
+    // resources of open PRs and of PRs which don't exist in this repository are left untouched
+    if (state !== 'closed' || inputs.dryRun) {
       continue;
     }
-    const featureSubgraphName = `${subgraph.name}-${inputs.namespace}-${prNumber}`;
-    const routingURL = subgraph.routingUrl.replaceAll('${PR_NUMBER}', prNumber.toString());
-    const command = `wgc subgraph delete ${featureSubgraphName} -n ${inputs.namespace} -f`;
-    await exec.exec(command);
-    featureSubgraphsToDestroy.push({
-      featureSubgraphName,
-      schemaPath: subgraph.schemaPath,
-      routingUrl: routingURL,
-      baseSubgraphName: subgraph.name,
-    });
+
+    core.info(`Pull request #${prNumber} is closed. Deleting its leftover preview resources.`);
+    featureSubgraphsToDestroy.push(
+      ...(await deletePreviewResources({
+        cosmoClient,
+        namespace: inputs.namespace,
+        resources,
+        subgraphs: inputs.subgraphs,
+        concurrency: inputs.maxConcurrency,
+        outcomes: runReport.outcomes,
+      })),
+    );
+    entry.deleted = true;
   }
-  core.setOutput('feature_subgraphs_to_destroy', featureSubgraphsToDestroy);
+
+  core.info(renderCleanupReport({ report, dryRun: inputs.dryRun }));
+  runReport.cleanupReport = report;
+  runReport.destroyedFeatureSubgraphs.push(...featureSubgraphsToDestroy);
 };
@@ -0,0 +1,68 @@
+import { FeatureFlag } from './types.js';
+
+export const getFeatureFlagName = ({ name, prNumber }: { name: string; prNumber: number }): string => {
+  return `${name}-${prNumber}`;
+};
+
+export const getFeatureSubgraphName = ({
+  subgraphName,
+  namespace,
+  prNumber,
+}: {
+  subgraphName: string;
+  namespace: string;
+  prNumber: number;
+}): string => {
+  return `${subgraphName}-${namespace}-${prNumber}`;
+};
+
+const parsePrNumber = (name: string, prefix: string): number | undefined => {
+  if (!name.startsWith(prefix)) {
+    return;
+  }
+  const prNumber = name.slice(prefix.length);
+  return /^\d+$/.test(prNumber) ? Number(prNumber) : undefined;
+};
+
+/**
+ * Extracts the PR number from the name of a feature flag the action created for one of the feature flags of the
+ * config, i.e. `${name}-${prNumber}`. Any other feature flag of the namespace is left alone, even if its name ends
+ * with a number, e.g. `rollout-5` created by hand or a feature flag of another repository sharing the namespace.
+ */
+export const parseFeatureFlagName = ({
+  featureFlagName,
+  featureFlags,
+}: {
+  featureFlagName: string;
+  featureFlags: FeatureFlag[];
+}): { name: string; prNumber: number } | undefined => {
+  for (const featureFlag of featureFlags) {
+    const prNumber = parsePrNumber(featureFlagName, `${featureFlag.name}-`);
+    if (prNumber !== undefined) {
+      return { name: featureFlag.name, prNumber };
+    }
+  }
+};
+
+/**
+ * Extracts the base subgraph name and the PR number from the name of a feature subgraph the action created,
+ * i.e. `${subgraphName}-${namespace}-${prNumber}`. The base subgraph doesn't have to be in the config, so that the
+ * feature subgraphs of subgraphs which were removed from or renamed in the config are found as well.
+ */
+export const parseFeatureSubgraphName = ({
+  featureSubgraphName,
+  namespace,
+}: {
+  featureSubgraphName: string;
+  namespace: string;
+}): { subgraphName: string; prNumber: number } | undefined => {
+  const suffix = `-${namespace}-`;
+  const index = featureSubgraphName.lastIndexOf(suffix);
+  if (index <= 0) {
+    return;
+  }
+  const prNumber = parsePrNumber(featureSubgraphName.slice(index), suffix);
+  if (prNumber !== undefined) {
+    return { subgraphName: featureSubgraphName.slice(0, index), prNumber };
+  }
+};
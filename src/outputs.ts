@@ -0,0 +1,139 @@
+import * as core from '@actions/core';
+import { ActionType, FailedFeatureFlagOutput, PreviewStatus, RunReport, RunResult, SubgraphsMatrix } from './types.js';
+
+/**
+ * The overall status of the previews after the run.
+ */
+export const getPreviewStatus = (report: RunReport): PreviewStatus => {
+  if (report.error) {
+    return 'failed';
+  }
+  if (report.dryRun) {
+    return 'planned';
+  }
+  if (report.actionType === 'destroy' || report.actionType === 'cleanup') {
+    return report.outcomes.some((outcome) => !outcome.success) ? 'failed' : 'destroyed';
+  }
+
+  const failedCount = Object.keys(report.featureFlagErrorOutputs).length;
+  if (failedCount > 0) {
+    return report.deployedFeatureFlags.length > 0 ? 'partially_deployed' : 'failed';
+  }
+  if (report.deployedFeatureFlags.length > 0) {
+    return report.smokeTestResults.some((result) => !result.passed) ? 'smoke_tests_failed' : 'deployed';
+  }
+  if (report.checkResults.some((result) => result.blocked)) {
+    return 'blocked';
+  }
+  return report.pendingFeatureSubgraphs.length > 0 ? 'pending' : 'unchanged';
+};
+
+export const getFailedFeatureFlags = (report: RunReport): FailedFeatureFlagOutput[] => {
+  return Object.entries(report.featureFlagErrorOutputs).map(([name, errorOutput]) => ({
+    name,
+    message: errorOutput.message,
+    errors: [...(errorOutput.compositionErrors ?? []), ...(errorOutput.deploymentErrors ?? [])].map((error) => ({
+      federatedGraphName: error.federatedGraphName,
+      message: error.message,
+    })),
+  }));
+};
+
+/**
+ * Builds a matrix for `strategy.matrix` of a downstream job, with an entry per published feature subgraph,
+ * or per destroyed feature subgraph for destroy and cleanup.
+ */
+export const getSubgraphsMatrix = (report: RunReport): SubgraphsMatrix => {
+  const featureSubgraphs =
+    report.actionType === 'destroy' || report.actionType === 'cleanup'
+      ? report.destroyedFeatureSubgraphs
+      : report.featureSubgraphsToDeploy;
+  return {
+    include: featureSubgraphs.map((featureSubgraph) => ({
+      subgraph: featureSubgraph.baseSubgraphName,
+      feature_subgraph: featureSubgraph.featureSubgraphName,
+      routing_url: featureSubgraph.routingUrl,
+      schema_path: featureSubgraph.schemaPath,
+      feature_flags: Object.entries(report.featureSubgraphsByFlag)
+        .filter(([, flagFeatureSubgraphs]) =>
+          flagFeatureSubgraphs.some(
+            (flagFeatureSubgraph) => flagFeatureSubgraph.featureSubgraphName === featureSubgraph.featureSubgraphName,
+          ),
+        )
+        .map(([name]) => name),
+    })),
+  };
+};
+
+export const getRunResult = (report: RunReport): RunResult => {
+  return {
+    actionType: report.actionType,
+    status: getPreviewStatus(report),
+    prNumber: report.prNumber,
+    deployedFeatureFlags: report.deployedFeatureFlags,
+    failedFeatureFlags: getFailedFeatureFlags(report),
+    featureSubgraphsToDeploy: report.featureSubgraphsToDeploy,
+    featureSubgraphsToDestroy: report.destroyedFeatureSubgraphs,
+    featureSubgraphsUnchanged: report.unchangedFeatureSubgraphs,
+    featureSubgraphsPending: report.pendingFeatureSubgraphs,
+    smokeTestResults: report.smokeTestResults,
+    error: report.error,
+  };
+};
+
+const writeOutputs = ({ result, subgraphsMatrix }: { result: RunResult; subgraphsMatrix: SubgraphsMatrix }) => {
+  core.setOutput('feature_subgraphs_to_deploy', JSON.stringify(result.featureSubgraphsToDeploy));
+  core.setOutput('feature_subgraphs_to_destroy', JSON.stringify(result.featureSubgraphsToDestroy));
+  core.setOutput('feature_subgraphs_unchanged', JSON.stringify(result.featureSubgraphsUnchanged));
+  core.setOutput('feature_subgraphs_pending', JSON.stringify(result.featureSubgraphsPending));
+  core.setOutput('deployed_feature_flags', JSON.stringify(result.deployedFeatureFlags));
+  core.setOutput('failed_feature_flags', JSON.stringify(result.failedFeatureFlags));
+  core.setOutput('preview_status', result.status);
+  core.setOutput('smoke_test_results', JSON.stringify(result.smokeTestResults));
+  core.setOutput('subgraphs_matrix', JSON.stringify(subgraphsMatrix));
+  core.setOutput('result', JSON.stringify(result));
+};
+
+/**
+ * Sets the outputs of the action from the report of the run. Every output except `preview_status` is serialized
+ * as JSON, and the outputs are set the same way for every action type, with empty lists if nothing applies.
+ */
+export const setOutputs = (report: RunReport): void => {
+  writeOutputs({ result: getRunResult(report), subgraphsMatrix: getSubgraphsMatrix(report) });
+  if (report.plan) {
+    core.setOutput('plan', JSON.stringify(report.plan));
+  }
+  if (report.cleanupReport) {
+    core.setOutput('cleanup_report', JSON.stringify(report.cleanupReport));
+  }
+};
+
+/**
+ * Sets the outputs of a run which ended before it touched the previews, e.g. because the event was skipped or the
+ * inputs are invalid, with empty lists, so that the following steps can read them the same way.
+ */
+export const setEmptyOutputs = ({
+  actionType,
+  status,
+  error,
+}: {
+  actionType?: ActionType;
+  status: Extract<PreviewStatus, 'skipped' | 'failed'>;
+  error?: string;
+}): void => {
+  writeOutputs({
+    result: {
+      actionType,
+      status,
+      deployedFeatureFlags: [],
+      failedFeatureFlags: [],
+      featureSubgraphsToDeploy: [],
+      featureSubgraphsToDestroy: [],
+      featureSubgraphsUnchanged: [],
+      featureSubgraphsPending: [],
+      smokeTestResults: [],
+      error,
+    },
+    subgraphsMatrix: { include: [] },
+  });
+};
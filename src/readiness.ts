@@ -0,0 +1,70 @@
+import * as core from '@actions/core';
+import { sleep } from './retry.js';
+import { SubgraphReadiness } from './types.js';
+
+export const defaultReadinessTimeoutSeconds = 300;
+
+// the delay between two probes doubles up to the maximum
+const initialDelayMs = 1000;
+const maxDelayMs = 30_000;
+const probeTimeoutMs = 10_000;
+
+/**
+ * Probes the subgraph once: a GET of the health path if it is set, and a `{ __typename }` query otherwise.
+ * Returns why the subgraph is not ready, or undefined if it is.
+ */
+const probe = async ({ routingUrl, healthPath }: { routingUrl: string; healthPath?: string }) => {
+  try {
+    if (healthPath) {
+      const response = await fetch(new URL(healthPath, routingUrl), { signal: AbortSignal.timeout(probeTimeoutMs) });
+      return response.ok ? undefined : `the health check responded with the status ${response.status}`;
+    }
+    const response = await fetch(routingUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: '{ __typename }' }),
+      signal: AbortSignal.timeout(probeTimeoutMs),
+    });
+    if (!response.ok) {
+      return `the subgraph responded with the status ${response.status}`;
+    }
+    const body = (await response.json()) as { data?: { __typename?: unknown } } | null;
+    return body?.data?.__typename ? undefined : 'the subgraph responded without data.__typename';
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+/**
+ * Polls the routing URL of the subgraph with backoff until it is ready or the timeout of the readiness gate is over,
+ * so that the router doesn't route the feature flag to a subgraph which isn't deployed yet.
+ * @returns whether the subgraph became ready.
+ */
+export const waitForReadiness = async ({
+  subgraphName,
+  routingUrl,
+  readiness,
+}: {
+  subgraphName: string;
+  routingUrl: string;
+  readiness: SubgraphReadiness;
+}): Promise<boolean> => {
+  const deadline = Date.now() + readiness.timeoutSeconds * 1000;
+  for (let attempt = 0; ; attempt++) {
+    const reason = await probe({ routingUrl, healthPath: readiness.healthPath });
+    if (!reason) {
+      core.info(`The subgraph '${subgraphName}' is ready at ${routingUrl}.`);
+      return true;
+    }
+    const remainingMs = deadline - Date.now();
+    if (remainingMs <= 0) {
+      core.warning(
+        `The subgraph '${subgraphName}' did not become ready at ${routingUrl} within ${readiness.timeoutSeconds}s, as ${reason}.`,
+      );
+      return false;
+    }
+    const delayMs = Math.min(initialDelayMs * 2 ** attempt, maxDelayMs, remainingMs);
+    core.info(`The subgraph '${subgraphName}' is not ready yet, as ${reason}. Checking again in ${delayMs}ms.`);
+    await sleep(delayMs);
+  }
+};
@@ -0,0 +1,205 @@
+import * as core from '@actions/core';
+import { CosmoClient } from './cosmoClient.js';
+import { getFeatureFlagName, getFeatureSubgraphName } from './naming.js';
+import { resolveRoutingUrl, TemplateVariables } from './templating.js';
+import {
+  ConfigDiff,
+  FeatureFlag,
+  FeatureSubgraphsOutputConfig,
+  Plan,
+  PreviewConfig,
+  ResourceOutcome,
+} from './types.js';
+
+// the routing URL of a removed subgraph is only reported, so a template which can't be resolved anymore is kept as is
+const resolvePreviousRoutingUrl = (template: string, variables: TemplateVariables): string => {
+  try {
+    return resolveRoutingUrl({ template, variables });
+  } catch {
+    return template;
+  }
+};
+
+const haveSameLabels = (a: FeatureFlag, b: FeatureFlag): boolean => {
+  const labelsA = [...a.labels].sort();
+  const labelsB = [...b.labels].sort();
+  return labelsA.length === labelsB.length && labelsA.every((label, index) => label === labelsB[index]);
+};
+
+/**
+ * Computes the difference between the config the previews were last synced with and the current config.
+ * Feature flags and subgraphs are matched by name, so a renamed entry is reported as removed and added.
+ */
+export const diffConfigs = ({
+  previousConfig,
+  currentConfig,
+}: {
+  previousConfig: PreviewConfig;
+  currentConfig: PreviewConfig;
+}): ConfigDiff => {
+  // all the resources of the previous config live in the old namespace, so they have to be recreated
+  const namespaceChanged = previousConfig.namespace !== currentConfig.namespace;
+
+  const removedFeatureFlags = previousConfig.featureFlags.filter(
+    (flag) => namespaceChanged || !currentConfig.featureFlags.some((f) => f.name === flag.name),
+  );
+  const addedFeatureFlags = currentConfig.featureFlags.filter(
+    (flag) => namespaceChanged || !previousConfig.featureFlags.some((f) => f.name === flag.name),
+  );
+  const relabeledFeatureFlags = namespaceChanged
+    ? []
+    : currentConfig.featureFlags.filter((flag) => {
+        const previousFlag = previousConfig.featureFlags.find((f) => f.name === flag.name);
+        return previousFlag && !haveSameLabels(previousFlag, flag);
+      });
+
+  const removedSubgraphs = previousConfig.subgraphs.filter(
+    (subgraph) => namespaceChanged || !currentConfig.subgraphs.some((s) => s.name === subgraph.name),
+  );
+  const addedSubgraphs = currentConfig.subgraphs.filter(
+    (subgraph) => namespaceChanged || !previousConfig.subgraphs.some((s) => s.name === subgraph.name),
+  );
+
+  return {
+    namespaceChanged,
+    removedFeatureFlags,
+    addedFeatureFlags,
+    relabeledFeatureFlags,
+    removedSubgraphs,
+    addedSubgraphs,
+  };
+};
+
+export const hasConfigChanges = (diff: ConfigDiff): boolean => {
+  return (
+    diff.namespaceChanged ||
+    diff.removedFeatureFlags.length > 0 ||
+    diff.addedFeatureFlags.length > 0 ||
+    diff.relabeledFeatureFlags.length > 0 ||
+    diff.removedSubgraphs.length > 0 ||
+    diff.addedSubgraphs.length > 0
+  );
+};
+
+/**
+ * Deletes the feature flags and feature subgraphs which are no longer part of the config
+ * and updates the labels of the feature flags whose labels have changed.
+ * New feature flags and subgraphs are created by the regular update flow.
+ * @returns the feature subgraphs which were destroyed.
+ */
+export const reconcileConfigChanges = async ({
+  cosmoClient,
+  previousConfig,
+  currentConfig,
+  diff,
+  prNumber,
+  templateVariables,
+  plan,
+  outcomes,
+}: {
+  cosmoClient: CosmoClient;
+  previousConfig: PreviewConfig;
+  currentConfig: PreviewConfig;
+  diff: ConfigDiff;
+  prNumber: number;
+  templateVariables: TemplateVariables;
+  plan?: Plan;
+  // the result of every delete and update is recorded here, if given
+  outcomes?: ResourceOutcome[];
+}): Promise<FeatureSubgraphsOutputConfig[]> => {
+  const destroyedFeatureSubgraphs: FeatureSubgraphsOutputConfig[] = [];
+
+  for (const featureFlag of diff.removedFeatureFlags) {
+    const featureFlagName = getFeatureFlagName({ name: featureFlag.name, prNumber });
+    core.info(`Feature flag '${featureFlag.name}' was removed from the config. Deleting '${featureFlagName}'.`);
+    if (plan) {
+      plan.steps.push({
+        operation: 'delete',
+        resourceType: 'feature-flag',
+        name: featureFlagName,
+        namespace: previousConfig.namespace,
+      });
+      continue;
+    }
+    const result = await cosmoClient.deleteFeatureFlag({ name: featureFlagName, namespace: previousConfig.namespace });
+    outcomes?.push({
+      operation: 'delete',
+      resourceType: 'feature-flag',
+      name: featureFlagName,
+      success: result.success,
+      message: result.success ? undefined : result.error.message,
+    });
+    if (!result.success) {
+      core.warning(`Failed to delete the feature flag '${featureFlagName}'. It might not have been created.`);
+    }
+  }
+
+  for (const subgraph of diff.removedSubgraphs) {
+    const featureSubgraphName = getFeatureSubgraphName({
+      subgraphName: subgraph.name,
+      namespace: previousConfig.namespace,
+      prNumber,
+    });
+    core.info(`Subgraph '${subgraph.name}' was removed from the config. Deleting '${featureSubgraphName}'.`);
+    if (plan) {
+      plan.steps.push({
+        operation: 'delete',
+        resourceType: 'feature-subgraph',
+        name: featureSubgraphName,
+        namespace: previousConfig.namespace,
+        baseSubgraphName: subgraph.name,
+      });
+      continue;
+    }
+    const result = await cosmoClient.deleteSubgraph({ name: featureSubgraphName, namespace: previousConfig.namespace });
+    outcomes?.push({
+      operation: 'delete',
+      resourceType: 'feature-subgraph',
+      name: featureSubgraphName,
+      success: result.success,
+      message: result.success ? undefined : result.error.message,
+    });
+    if (!result.success) {
+      core.warning(`Failed to delete the feature subgraph '${featureSubgraphName}'. It might not have been created.`);
+      continue;
+    }
+    destroyedFeatureSubgraphs.push({
+      featureSubgraphName,
+      schemaPath: subgraph.schemaPaths.join(', '),
+      routingUrl: resolvePreviousRoutingUrl(subgraph.routingUrl, templateVariables),
+      baseSubgraphName: subgraph.name,
+    });
+  }
+
+  for (const featureFlag of diff.relabeledFeatureFlags) {
+    const featureFlagName = getFeatureFlagName({ name: featureFlag.name, prNumber });
+    core.info(`Labels of the feature flag '${featureFlag.name}' have changed. Updating '${featureFlagName}'.`);
+    if (plan) {
+      plan.steps.push({
+        operation: 'update',
+        resourceType: 'feature-flag',
+        name: featureFlagName,
+        namespace: currentConfig.namespace,
+        labels: featureFlag.labels,
+      });
+      continue;
+    }
+    const result = await cosmoClient.updateFeatureFlag({
+      name: featureFlagName,
+      namespace: currentConfig.namespace,
+      labels: featureFlag.labels,
+    });
+    outcomes?.push({
+      operation: 'update',
+      resourceType: 'feature-flag',
+      name: featureFlagName,
+      success: result.success,
+      message: result.success ? undefined : result.error.message,
+    });
+    if (!result.success) {
+      core.warning(`Failed to update the labels of the feature flag '${featureFlagName}'. ${result.error.message}`);
+    }
+  }
+
+  return destroyedFeatureSubgraphs;
+};
@@ -0,0 +1,154 @@
+import * as core from '@actions/core';
+import { mapWithConcurrency } from './concurrency.js';
+import { CosmoClient, unwrapResult } from './cosmoClient.js';
+import { parseFeatureFlagName, parseFeatureSubgraphName } from './naming.js';
+import { FeatureFlag, FeatureSubgraphsOutputConfig, PreviewResources, ResourceOutcome, Subgraph } from './types.js';
+
+/**
+ * Looks up all the feature flags and feature subgraphs in the namespace which the action created, grouped by the
+ * number of the PR they belong to. Feature subgraphs are matched by their `-${namespace}-${prNumber}` suffix, feature
+ * flags by the names the action builds from the given feature flags, which should include the ones of the previous
+ * configs of the PR. Anything else in the namespace is left alone, e.g. `release-2024` created by hand, which would
+ * otherwise be deleted once #2024 is closed.
+ */
+export const getPreviewResourcesByPr = async ({
+  cosmoClient,
+  namespace,
+  featureFlags,
+  subgraphs: configSubgraphs,
+}: {
+  cosmoClient: CosmoClient;
+  namespace: string;
+  featureFlags: FeatureFlag[];
+  subgraphs: Subgraph[];
+}): Promise<Map<number, PreviewResources>> => {
+  const [cosmoFeatureFlags, cosmoSubgraphs] = await Promise.all([
+    cosmoClient.listFeatureFlags(namespace).then(unwrapResult),
+    cosmoClient.listSubgraphs(namespace).then(unwrapResult),
+  ]);
+  const resourcesByPr = new Map<number, PreviewResources>();
+  const getResources = (prNumber: number): PreviewResources => {
+    let resources = resourcesByPr.get(prNumber);
+    if (!resources) {
+      resources = { featureFlags: [], featureSubgraphs: [] };
+      resourcesByPr.set(prNumber, resources);
+    }
+    return resources;
+  };
+
+  for (const subgraph of cosmoSubgraphs) {
+    if (subgraph.isFeatureSubgraph === false) {
+      continue;
+    }
+    const parsed = parseFeatureSubgraphName({ featureSubgraphName: subgraph.name, namespace });
+    // older versions of the control plane do not return the field, only the subgraphs of the config are trusted then
+    const isKnown =
+      subgraph.isFeatureSubgraph === true ||
+      configSubgraphs.some((configSubgraph) => configSubgraph.name === parsed?.subgraphName);
+    if (!parsed || !isKnown) {
+      continue;
+    }
+    getResources(parsed.prNumber).featureSubgraphs.push({
+      featureSubgraphName: subgraph.name,
+      baseSubgraphName: parsed.subgraphName,
+      routingUrl: subgraph.routingURL,
+    });
+  }
+
+  for (const featureFlag of cosmoFeatureFlags) {
+    const parsed = parseFeatureFlagName({ featureFlagName: featureFlag.name, featureFlags });
+    if (!parsed) {
+      continue;
+    }
+    getResources(parsed.prNumber).featureFlags.push(featureFlag.name);
+  }
+
+  core.info(`Found preview resources of ${resourcesByPr.size} pull requests in the namespace '${namespace}'.`);
+
+  return resourcesByPr;
+};
+
+export const getPreviewResources = async ({
+  cosmoClient,
+  namespace,
+  featureFlags,
+  subgraphs,
+  prNumber,
+}: {
+  cosmoClient: CosmoClient;
+  namespace: string;
+  featureFlags: FeatureFlag[];
+  subgraphs: Subgraph[];
+  prNumber: number;
+}): Promise<PreviewResources> => {
+  const resourcesByPr = await getPreviewResourcesByPr({ cosmoClient, namespace, featureFlags, subgraphs });
+  return resourcesByPr.get(prNumber) ?? { featureFlags: [], featureSubgraphs: [] };
+};
+
+/**
+ * Deletes the given feature flags and feature subgraphs. Failures are reported as warnings,
+ * so that a single resource which is already gone doesn't block the deletion of the others.
+ * @returns the feature subgraphs which were found, marked with whether they were destroyed.
+ */
+export const deletePreviewResources = async ({
+  cosmoClient,
+  namespace,
+  resources,
+  subgraphs,
+  concurrency = 1,
+  outcomes,
+}: {
+  cosmoClient: CosmoClient;
+  namespace: string;
+  resources: PreviewResources;
+  subgraphs: Subgraph[];
+  concurrency?: number;
+  // the result of every delete is recorded here, if given
+  outcomes?: ResourceOutcome[];
+}): Promise<FeatureSubgraphsOutputConfig[]> => {
+  // the feature flags are deleted first, so that no feature flag is left with deleted feature subgraphs
+  // the outcomes are returned by the deletes and recorded in the order of the resources
+  const featureFlagOutcomes = await mapWithConcurrency(
+    resources.featureFlags,
+    concurrency,
+    async (featureFlagName): Promise<ResourceOutcome> => {
+      const result = await cosmoClient.deleteFeatureFlag({ name: featureFlagName, namespace });
+      if (!result.success) {
+        core.warning(`Failed to delete the feature flag '${featureFlagName}'. ${result.error.message}`);
+      }
+      return {
+        operation: 'delete',
+        resourceType: 'feature-flag',
+        name: featureFlagName,
+        success: result.success,
+        message: result.success ? undefined : result.error.message,
+      };
+    },
+  );
+  outcomes?.push(...featureFlagOutcomes);
+
+  const results = await mapWithConcurrency(resources.featureSubgraphs, concurrency, async (featureSubgraph) => {
+    const subgraph = subgraphs.find((subgraph) => subgraph.name === featureSubgraph.baseSubgraphName);
+    const result = await cosmoClient.deleteSubgraph({ name: featureSubgraph.featureSubgraphName, namespace });
+    if (!result.success) {
+      core.warning(
+        `Failed to delete the feature subgraph '${featureSubgraph.featureSubgraphName}'. ${result.error.message}`,
+      );
+    }
+    const outcome: ResourceOutcome = {
+      operation: 'delete',
+      resourceType: 'feature-subgraph',
+      name: featureSubgraph.featureSubgraphName,
+      success: result.success,
+      message: result.success ? undefined : result.error.message,
+    };
+    const destroyedFeatureSubgraph: FeatureSubgraphsOutputConfig = {
+      ...featureSubgraph,
+      schemaPath: subgraph?.schemaPaths.join(', ') ?? '',
+      destroyed: result.success,
+    };
+    return { outcome, destroyedFeatureSubgraph };
+  });
+  outcomes?.push(...results.map(({ outcome }) => outcome));
+  return results.map(({ destroyedFeatureSubgraph }) => destroyedFeatureSubgraph);
+};
@@ -0,0 +1,92 @@
+import * as core from '@actions/core';
+import * as github from '@actions/github';
+import { RetryOptions } from './types.js';
+
+export const defaultRetryOptions: RetryOptions = { retries: 3, delayMs: 1000 };
+
+export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Runs the operation and retries it with exponential backoff as long as it fails with a retryable error.
+ * Fatal errors, and the last retryable error once the retries are used up, are thrown.
+ */
+export const withRetry = async <T>(
+  operation: () => Promise<T>,
+  {
+    description,
+    isRetryable,
+    options = defaultRetryOptions,
+  }: {
+    description: string;
+    isRetryable: (error: unknown) => boolean;
+    options?: RetryOptions;
+  },
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= options.retries || !isRetryable(error)) {
+        throw error;
+      }
+      const delayMs = options.delayMs * 2 ** attempt;
+      core.info(
+        `${description} failed, retrying in ${delayMs}ms (${attempt + 1}/${options.retries}). ${error instanceof Error ? error.message : ''}`,
+      );
+      await sleep(delayMs);
+    }
+  }
+};
+
+/**
+ * Network errors, server errors and rate limits are retryable, other client errors like 404 or 422 are fatal.
+ */
+export const isRetryableGithubError = (error: unknown): boolean => {
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status !== 'number') {
+    return true;
+  }
+  if (status >= 500 || status === 429) {
+    return true;
+  }
+  // the secondary rate limit responds with 403
+  return status === 403 && /rate limit/i.test(error instanceof Error ? error.message : '');
+};
+
+// the PATCH endpoints the action calls replace the fields they are given, so repeating them is safe as well
+const idempotentMethods = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'PATCH', 'DELETE']);
+
+// errors of requests which GitHub never processed: rate limited ones, and ones which couldn't be sent at all
+const unsentRequestPattern = /ECONNREFUSED|ENOTFOUND|EAI_AGAIN/;
+
+/**
+ * Idempotent requests are retried on any retryable error. Other requests, e.g. creating a comment or a check run,
+ * are only retried if GitHub didn't process them, as repeating them could create duplicates.
+ */
+export const isRetryableGithubRequest = ({ method, error }: { method: string; error: unknown }): boolean => {
+  if (idempotentMethods.has(method.toUpperCase())) {
+    return isRetryableGithubError(error);
+  }
+  const status = (error as { status?: unknown })?.status;
+  if (status === 429 || (status === 403 && isRetryableGithubError(error))) {
+    return true;
+  }
+  // octokit reports a request which couldn't be sent with the status 500 and without a response
+  const hasResponse = (error as { response?: unknown })?.response !== undefined;
+  return !hasResponse && unsentRequestPattern.test(error instanceof Error ? error.message : '');
+};
+
+/**
+ * Creates an Octokit client which retries failed requests, including the pages of paginated requests.
+ */
+export const getOctokit = ({ githubToken, retry }: { githubToken: string; retry?: RetryOptions }) => {
+  const octokit = github.getOctokit(githubToken);
+  octokit.hook.wrap('request', (request, requestOptions) =>
+    withRetry(async () => await request(requestOptions), {
+      description: `GitHub request ${requestOptions.method} ${requestOptions.url}`,
+      isRetryable: (error) => isRetryableGithubRequest({ method: requestOptions.method, error }),
+      options: retry,
+    }),
+  );
+  return octokit;
+};
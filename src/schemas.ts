@@ -0,0 +1,196 @@
+import { mkdirSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import * as core from '@actions/core';
+import * as exec from '@actions/exec';
+import { parse, print } from 'graphql';
+import mm from 'micromatch';
+import { join, normalize, relative, resolve } from 'pathe';
+import type { CosmoClient } from './cosmoClient.js';
+import { Subgraph } from './types.js';
+
+const ignoredDirectories = new Set(['node_modules', '.git']);
+
+/**
+ * Normalizes a path or pattern to be relative to the root of the repository, e.g. `./a/b.graphql` becomes `a/b.graphql`.
+ */
+export const toRepositoryPath = (path: string): string => {
+  return normalize(relative(process.cwd(), resolve(process.cwd(), path)));
+};
+
+/**
+ * Tells whether a changed file affects the schema of a subgraph, i.e. it is one of its schema files,
+ * or one of the watched files of a code-first subgraph.
+ */
+export const isSchemaFileOfSubgraph = (subgraph: Subgraph, file: string): boolean => {
+  return mm.isMatch(toRepositoryPath(file), [...subgraph.schemaPaths, ...subgraph.watchPaths], { dot: true });
+};
+
+/**
+ * Returns the patterns of the changed files which can affect the schema of a subgraph.
+ */
+export const getChangedFilePatterns = (subgraphs: Subgraph[]): string[] => {
+  return ['**/*.graphql', '**/*.gql', '**/*.graphqls', ...subgraphs.flatMap((subgraph) => subgraph.watchPaths)];
+};
+
+/**
+ * Returns the subgraphs which have at least one of the files as a schema file, in the order of the config.
+ */
+export const getSubgraphsOfFiles = ({ subgraphs, files }: { subgraphs: Subgraph[]; files: string[] }): Subgraph[] => {
+  return subgraphs.filter((subgraph) => files.some((file) => isSchemaFileOfSubgraph(subgraph, file)));
+};
+
+const walk = (directory: string): string[] => {
+  let entries;
+  try {
+    entries = readdirSync(resolve(process.cwd(), directory), { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const files: string[] = [];
+  for (const entry of entries) {
+    const path = directory === '.' ? entry.name : join(directory, entry.name);
+    if (entry.isDirectory()) {
+      if (!ignoredDirectories.has(entry.name)) {
+        files.push(...walk(path));
+      }
+    } else if (entry.isFile()) {
+      files.push(path);
+    }
+  }
+  return files;
+};
+
+/**
+ * Returns the files matching the schema paths of a subgraph, relative to the root of the repository.
+ * The files are sorted and deduplicated, so that the merged schema is stable across runs.
+ */
+export const findSchemaFiles = (schemaPaths: string[]): string[] => {
+  const files = new Set<string>();
+  for (const schemaPath of schemaPaths) {
+    const { base, isGlob } = mm.scan(schemaPath);
+    if (!isGlob) {
+      files.add(schemaPath);
+      continue;
+    }
+    for (const file of walk(base || '.')) {
+      if (mm.isMatch(file, schemaPath, { dot: true })) {
+        files.add(file);
+      }
+    }
+  }
+  return [...files].sort();
+};
+
+/**
+ * Returns the path of the schema file to publish for a subgraph. Subgraphs with a single schema file are published
+ * as is, the files of subgraphs with several schema files are merged into one SDL document.
+ */
+export const getSchemaFile = (subgraph: Subgraph): string => {
+  const files = findSchemaFiles(subgraph.schemaPaths);
+  if (files.length === 0) {
+    throw new Error(`No schema files found for the subgraph '${subgraph.name}' at ${subgraph.schemaPaths.join(', ')}.`);
+  }
+  if (files.length === 1) {
+    return resolve(process.cwd(), files[0]);
+  }
+
+  const mergedSchema = files
+    .map((file) => `# ${file}\n${readFileSync(resolve(process.cwd(), file)).toString().trim()}\n`)
+    .join('\n');
+  const mergedSchemaFile = getTempFile(`${subgraph.name}.graphql`);
+  writeFileSync(mergedSchemaFile, mergedSchema);
+  return mergedSchemaFile;
+};
+
+const getTempFile = (name: string): string => {
+  const directory = join(process.env.RUNNER_TEMP || tmpdir(), 'cosmo-previews');
+  mkdirSync(directory, { recursive: true });
+  return join(directory, name);
+};
+
+/**
+ * Runs the schema command of a code-first subgraph. The SDL is read from the schema paths of the subgraph if set,
+ * otherwise from the output of the command.
+ * @returns the path of the generated schema file.
+ */
+export const generateSchema = async (subgraph: Subgraph): Promise<string> => {
+  let output = '';
+  const options = {
+    ignoreReturnCode: true,
+    listeners: {
+      stdout: (data: Buffer) => {
+        output += data.toString();
+      },
+    },
+  };
+  core.info(`Generating the schema of the subgraph '${subgraph.name}'.`);
+  const exitCode = await exec.exec('sh', ['-c', subgraph.schemaCommand!], options);
+  if (exitCode !== 0) {
+    throw new Error(`The schema command of the subgraph '${subgraph.name}' failed with exit code ${exitCode}.`);
+  }
+
+  if (subgraph.schemaPaths.length > 0) {
+    return getSchemaFile(subgraph);
+  }
+  if (!output.trim()) {
+    throw new Error(`The schema command of the subgraph '${subgraph.name}' didn't print a schema.`);
+  }
+  const schemaFile = getTempFile(`${subgraph.name}.generated.graphql`);
+  writeFileSync(schemaFile, output);
+  return schemaFile;
+};
+
+/**
+ * Fetches the latest published SDL of a subgraph, which is published from the base branch.
+ */
+const fetchPublishedSchema = async ({
+  cosmoClient,
+  subgraphName,
+  namespace,
+}: {
+  cosmoClient: CosmoClient;
+  subgraphName: string;
+  namespace: string;
+}): Promise<string | undefined> => {
+  const result = await cosmoClient.fetchSubgraphSchema({ name: subgraphName, namespace });
+  if (!result.success) {
+    core.warning(`Could not fetch the published schema of the subgraph '${subgraphName}'. ${result.error.message}`);
+    return;
+  }
+  return result.data;
+};
+
+// printing the parsed schema drops the comments and the formatting, which don't change the published schema
+const normalizeSchema = (schema: string) => {
+  try {
+    return print(parse(schema));
+  } catch {
+    // the schema is compared as is, publishing it reports why it is invalid
+    return schema.replaceAll('\r\n', '\n').trim();
+  }
+};
+
+/**
+ * Returns the schema file to publish for a subgraph, generating it first for code-first subgraphs.
+ * A generated schema is `unchanged` if it prints the same as the published schema of the base subgraph.
+ */
+export const prepareSchemaFile = async ({
+  cosmoClient,
+  subgraph,
+  namespace,
+}: {
+  cosmoClient: CosmoClient;
+  subgraph: Subgraph;
+  namespace: string;
+}): Promise<{ schemaPath: string; unchanged: boolean }> => {
+  if (!subgraph.schemaCommand) {
+    return { schemaPath: getSchemaFile(subgraph), unchanged: false };
+  }
+
+  const schemaPath = await generateSchema(subgraph);
+  const publishedSchema = await fetchPublishedSchema({ cosmoClient, subgraphName: subgraph.name, namespace });
+  const unchanged =
+    publishedSchema !== undefined &&
+    normalizeSchema(publishedSchema) === normalizeSchema(readFileSync(schemaPath).toString());
+  return { schemaPath, unchanged };
+};
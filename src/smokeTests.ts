@@ -0,0 +1,167 @@
+import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import * as core from '@actions/core';
+import { join, resolve } from 'pathe';
+import { withRetry } from './retry.js';
+import { RetryOptions, SmokeTest, SmokeTestResult } from './types.js';
+
+// a router which doesn't answer within this time fails the attempt
+const requestTimeoutMs = 30_000;
+
+class SmokeTestFailure extends Error {
+  constructor(
+    message: string,
+    readonly diff: string[] = [],
+  ) {
+    super(message);
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const readJson = (path: string): unknown => {
+  try {
+    return JSON.parse(readFileSync(path).toString());
+  } catch (error) {
+    throw new Error(`The smoke test file '${path}' is not valid JSON. ${error instanceof Error ? error.message : ''}`);
+  }
+};
+
+/**
+ * Loads the smoke tests of the directory: an operation per `<name>.graphql` file, with the variables of the
+ * optional `<name>.variables.json` file and the response snapshot of the optional `<name>.expected.json` file.
+ */
+export const loadSmokeTests = (path: string): SmokeTest[] => {
+  const directory = resolve(process.cwd(), path);
+  if (!existsSync(directory)) {
+    throw new Error(`The smoke tests directory '${path}' does not exist.`);
+  }
+
+  return readdirSync(directory)
+    .filter((file) => file.endsWith('.graphql'))
+    .sort()
+    .map((file) => {
+      const name = file.slice(0, -'.graphql'.length);
+      const variablesFile = join(directory, `${name}.variables.json`);
+      const expectedFile = join(directory, `${name}.expected.json`);
+      const variables = existsSync(variablesFile) ? readJson(variablesFile) : undefined;
+      if (variables !== undefined && !isObject(variables)) {
+        throw new Error(`The variables of the smoke test '${name}' must be a JSON object.`);
+      }
+      return {
+        name,
+        query: readFileSync(join(directory, file)).toString(),
+        variables,
+        expectedResponse: existsSync(expectedFile) ? readJson(expectedFile) : undefined,
+      };
+    });
+};
+
+const formatValue = (value: unknown) => (value === undefined ? 'nothing' : JSON.stringify(value));
+
+/**
+ * Compares the response to the expected one and returns a line per differing value, with its path in the response,
+ * e.g. `data.user.name: expected "Ada", got "Grace"`.
+ */
+export const diffResponses = (expected: unknown, actual: unknown, path = ''): string[] => {
+  if (Array.isArray(expected) && Array.isArray(actual)) {
+    const length = Math.max(expected.length, actual.length);
+    return Array.from({ length }, (_, index) =>
+      diffResponses(expected[index], actual[index], `${path}[${index}]`),
+    ).flat();
+  }
+  if (isObject(expected) && isObject(actual)) {
+    const keys = [...new Set([...Object.keys(expected), ...Object.keys(actual)])];
+    return keys.flatMap((key) => diffResponses(expected[key], actual[key], path ? `${path}.${key}` : key));
+  }
+  if (JSON.stringify(expected) === JSON.stringify(actual)) {
+    return [];
+  }
+  return [`${path || 'response'}: expected ${formatValue(expected)}, got ${formatValue(actual)}`];
+};
+
+const runSmokeTest = async ({
+  routerUrl,
+  featureFlagName,
+  smokeTest,
+}: {
+  routerUrl: string;
+  featureFlagName: string;
+  smokeTest: SmokeTest;
+}): Promise<void> => {
+  const response = await fetch(routerUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'X-Feature-Flag': featureFlagName },
+    body: JSON.stringify({ query: smokeTest.query, variables: smokeTest.variables }),
+    signal: AbortSignal.timeout(requestTimeoutMs),
+  });
+  const text = await response.text();
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new SmokeTestFailure(
+      `The router responded with the status ${response.status} and no JSON: ${text.slice(0, 200)}`,
+    );
+  }
+
+  if (smokeTest.expectedResponse !== undefined) {
+    const diff = diffResponses(smokeTest.expectedResponse, body);
+    if (diff.length > 0) {
+      throw new SmokeTestFailure('The response differs from the expected response.', diff);
+    }
+    return;
+  }
+  // without a snapshot, any successful response without errors passes
+  const errors = isObject(body) && Array.isArray(body.errors) ? body.errors : [];
+  if (!response.ok || errors.length > 0) {
+    throw new SmokeTestFailure(
+      `The router responded with the status ${response.status} and ${errors.length} errors.`,
+      errors.map((error) => (isObject(error) ? String(error.message) : JSON.stringify(error))),
+    );
+  }
+};
+
+/**
+ * Runs every smoke test against the router with the `X-Feature-Flag` header of each feature flag.
+ * A failing smoke test is retried with backoff, as the router only serves a new feature flag once it has polled its
+ * config. The failures are returned as results instead of being thrown.
+ */
+export const runSmokeTests = async ({
+  routerUrl,
+  featureFlagNames,
+  smokeTests,
+  retry,
+}: {
+  routerUrl: string;
+  featureFlagNames: string[];
+  smokeTests: SmokeTest[];
+  retry?: RetryOptions;
+}): Promise<SmokeTestResult[]> => {
+  const results: SmokeTestResult[] = [];
+  for (const featureFlagName of featureFlagNames) {
+    for (const smokeTest of smokeTests) {
+      try {
+        await withRetry(() => runSmokeTest({ routerUrl, featureFlagName, smokeTest }), {
+          description: `The smoke test '${smokeTest.name}' of the feature flag '${featureFlagName}'`,
+          isRetryable: () => true,
+          options: retry,
+        });
+        core.info(`The smoke test '${smokeTest.name}' of the feature flag '${featureFlagName}' passed.`);
+        results.push({ featureFlagName, name: smokeTest.name, passed: true, diff: [] });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        core.warning(`The smoke test '${smokeTest.name}' of the feature flag '${featureFlagName}' failed. ${message}`);
+        results.push({
+          featureFlagName,
+          name: smokeTest.name,
+          passed: false,
+          message,
+          diff: error instanceof SmokeTestFailure ? error.diff : [],
+        });
+      }
+    }
+  }
+  return results;
+};
@@ -0,0 +1,162 @@
+import * as core from '@actions/core';
+import { ActionType, RunReport } from './types.js';
+import {
+  renderCheckResults,
+  renderCleanupReport,
+  renderPendingFeatureSubgraphs,
+  renderPlan,
+  renderSmokeTestResults,
+} from './utils.js';
+
+export const createRunReport = ({ actionType, dryRun }: { actionType: ActionType; dryRun: boolean }): RunReport => ({
+  actionType,
+  dryRun,
+  changedFiles: [],
+  outcomes: [],
+  deployedFeatureFlags: [],
+  featureSubgraphsByFlag: {},
+  skippedFeatureFlags: [],
+  featureFlagErrorOutputs: {},
+  checkResults: [],
+  featureSubgraphsToDeploy: [],
+  unchangedFeatureSubgraphs: [],
+  destroyedFeatureSubgraphs: [],
+  pendingFeatureSubgraphs: [],
+  smokeTestResults: [],
+});
+
+const renderTable = (header: string[], rows: string[][]) =>
+  [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...rows.map(
+      (row) => `| ${row.map((cell) => cell.replaceAll('\n', '<br>').replaceAll('|', String.raw`\|`)).join(' | ')} |`,
+    ),
+  ].join('\n');
+
+const renderFeatureFlags = (report: RunReport): string[] => {
+  const rows = [
+    ...report.deployedFeatureFlags.map((name) => [
+      name,
+      '✅ Deployed',
+      (report.featureSubgraphsByFlag[name] ?? [])
+        .map((featureSubgraph) => featureSubgraph.featureSubgraphName)
+        .join(', '),
+    ]),
+    ...Object.entries(report.featureFlagErrorOutputs).map(([name, errorOutput]) => [
+      name,
+      '❌ Failed',
+      [errorOutput.message, ...(errorOutput.compositionErrors ?? []).map((error) => error.message)].join('\n'),
+    ]),
+    ...report.skippedFeatureFlags.map((name) => [
+      name,
+      '⏭️ Skipped',
+      'None of the changed subgraphs are covered by it',
+    ]),
+  ];
+  if (rows.length === 0) {
+    return [];
+  }
+  return ['### Feature flags', renderTable(['Feature Flag', 'Result', 'Feature Subgraphs / Error'], rows)];
+};
+
+/**
+ * Renders the report of a run as markdown: the changed schema files and the subgraphs they belong to,
+ * the result of every command run against Cosmo, the deployed and failed feature flags, the smoke tests and the
+ * destroyed resources.
+ */
+export const renderRunReport = (report: RunReport): string => {
+  const sections = [`## Cosmo Previews: ${report.actionType}${report.prNumber ? ` (#${report.prNumber})` : ''}`];
+  if (report.error) {
+    sections.push(`❌ The run failed: ${report.error}`);
+  }
+
+  // the plan of a dry run lists the changed schema files itself
+  if (report.plan) {
+    sections.push(renderPlan(report.plan, { markdown: true }));
+    return sections.join('\n\n');
+  }
+
+  if (report.actionType === 'create' || report.actionType === 'update') {
+    const subgraphNames = [
+      ...new Set(report.changedFiles.flatMap((changedFile) => changedFile.subgraphName?.split(', ') ?? [])),
+    ];
+    sections.push(
+      '### Changed schema files',
+      report.changedFiles.length > 0
+        ? renderTable(
+            ['File', 'Subgraph'],
+            report.changedFiles.map((changedFile) => [changedFile.file, changedFile.subgraphName ?? '-']),
+          )
+        : 'No changed schema files.',
+      `Matched subgraphs: ${subgraphNames.join(', ') || 'none'}`,
+    );
+  }
+
+  if (report.outcomes.length > 0) {
+    sections.push(
+      '### Commands',
+      renderTable(
+        ['Operation', 'Resource', 'Name', 'Result'],
+        report.outcomes.map((outcome) => [
+          outcome.operation,
+          outcome.resourceType,
+          outcome.name,
+          outcome.success ? '✅ Succeeded' : `❌ ${outcome.message ?? 'Failed'}`,
+        ]),
+      ),
+    );
+  }
+
+  sections.push(...renderFeatureFlags(report));
+
+  const checksSection = renderCheckResults(report.checkResults);
+  if (checksSection) {
+    sections.push(checksSection);
+  }
+
+  const pendingSection = renderPendingFeatureSubgraphs(report.pendingFeatureSubgraphs);
+  if (pendingSection) {
+    sections.push(pendingSection);
+  }
+
+  const smokeTestsSection = renderSmokeTestResults(report.smokeTestResults);
+  if (smokeTestsSection) {
+    sections.push(smokeTestsSection);
+  }
+
+  if (report.destroyedFeatureSubgraphs.length > 0) {
+    sections.push(
+      '### Destroyed feature subgraphs',
+      renderTable(
+        ['Feature Subgraph', 'Base Subgraph', 'Result'],
+        report.destroyedFeatureSubgraphs.map((featureSubgraph) => [
+          featureSubgraph.featureSubgraphName,
+          featureSubgraph.baseSubgraphName,
+          featureSubgraph.destroyed === false ? '❌ Not destroyed' : '✅ Destroyed',
+        ]),
+      ),
+    );
+  }
+
+  if (report.cleanupReport) {
+    sections.push(
+      '### Cleanup',
+      ['```', renderCleanupReport({ report: report.cleanupReport, dryRun: report.dryRun }), '```'].join('\n'),
+    );
+  }
+
+  return sections.join('\n\n');
+};
+
+/**
+ * Writes the report of the run to the job summary shown on the page of the workflow run.
+ * Failures are only reported as warnings, e.g. when the action runs outside of GitHub Actions.
+ */
+export const writeJobSummary = async (report: RunReport): Promise<void> => {
+  try {
+    await core.summary.addRaw(renderRunReport(report), true).write();
+  } catch (error) {
+    core.warning(`Could not write the job summary. ${error instanceof Error ? error.message : ''}`);
+  }
+};
@@ -0,0 +1,111 @@
+import { Context } from '@actions/github/lib/context.js';
+
+export type TemplateVariables = {
+  PR_NUMBER: string;
+  BRANCH: string;
+  HEAD_SHA: string;
+  SHORT_SHA: string;
+  REPO: string;
+  OWNER: string;
+};
+
+const placeholderPattern = /\${([^}]*)}/g;
+const envPlaceholderPattern = /^env\.([A-Z_a-z]\w*)$/;
+
+export const supportedPlaceholders: (keyof TemplateVariables)[] = [
+  'PR_NUMBER',
+  'BRANCH',
+  'HEAD_SHA',
+  'SHORT_SHA',
+  'REPO',
+  'OWNER',
+];
+
+/**
+ * Turns a branch name into a valid DNS label, e.g. `feat/My_Branch` becomes `feat-my-branch`.
+ */
+export const toDnsLabel = (value: string): string => {
+  return value
+    .toLowerCase()
+    .replaceAll(/[^\da-z-]+/g, '-')
+    .replaceAll(/-+/g, '-')
+    .slice(0, 63)
+    .replaceAll(/^-+|-+$/g, '');
+};
+
+export const getTemplateVariables = ({
+  context,
+  prNumber,
+}: {
+  context: Context;
+  prNumber: number;
+}): TemplateVariables => {
+  const pullRequest = context.payload.pull_request;
+  const headSha: string = pullRequest?.head?.sha ?? context.sha;
+  const branch: string = pullRequest?.head?.ref ?? context.ref.replace(/^refs\/heads\//, '');
+
+  return {
+    PR_NUMBER: prNumber.toString(),
+    BRANCH: toDnsLabel(branch),
+    HEAD_SHA: headSha,
+    SHORT_SHA: headSha.slice(0, 7),
+    REPO: context.repo.repo,
+    OWNER: context.repo.owner,
+  };
+};
+
+/**
+ * Returns the placeholders of the template which are neither supported variables nor `${env.NAME}` references.
+ */
+export const findUnknownPlaceholders = (template: string): string[] => {
+  return [...template.matchAll(placeholderPattern)]
+    .map((match) => match[1])
+    .filter(
+      (name) => !supportedPlaceholders.includes(name as keyof TemplateVariables) && !envPlaceholderPattern.test(name),
+    );
+};
+
+/**
+ * Replaces the placeholders of a routing URL template and makes sure the result is a valid http(s) URL.
+ * Throws on unknown placeholders, unset environment variables and invalid URLs.
+ */
+export const resolveRoutingUrl = ({
+  template,
+  variables,
+  env = process.env,
+}: {
+  template: string;
+  variables: TemplateVariables;
+  env?: NodeJS.ProcessEnv;
+}): string => {
+  const unknownPlaceholders = findUnknownPlaceholders(template);
+  if (unknownPlaceholders.length > 0) {
+    throw new Error(
+      `Unknown placeholders ${unknownPlaceholders.map((name) => `'\${${name}}'`).join(', ')} in the routing URL '${template}'. Supported placeholders: ${supportedPlaceholders.map((name) => `\${${name}}`).join(', ')}, \${env.NAME}.`,
+    );
+  }
+
+  const resolved = template.replaceAll(placeholderPattern, (_, name: string) => {
+    const envMatch = envPlaceholderPattern.exec(name);
+    if (!envMatch) {
+      return variables[name as keyof TemplateVariables];
+    }
+    const value = env[envMatch[1]];
+    if (value === undefined) {
+      throw new Error(`The environment variable '${envMatch[1]}' used in the routing URL '${template}' is not set.`);
+    }
+    return value;
+  });
+
+  let url: URL;
+  try {
+    url = new URL(resolved);
+  } catch {
+    throw new Error(`The routing URL '${resolved}' resolved from '${template}' is not a valid URL.`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`The routing URL '${resolved}' resolved from '${template}' must use http or https.`);
+  }
+
+  return resolved;
+};
@@ -1,34 +1,99 @@
+import type { SubgraphCommandJsonOutput } from 'wgc/dist/core/types/types.js';
+
 export type Config = {
+  version: string;
   namespace: string;
+  // previews are only created for pull requests with this label, if set
+  trigger_label?: string;
+  // the GraphQL operations run against the router for every deployed feature flag
+  smoke_tests?: {
+    path: string;
+  };
   feature_flags: FeatureFlag[];
   subgraphs: {
     name: string;
-    schema_path: string;
+    // a path, a glob pattern or a list of them. Optional if the schema is printed by schema_command
+    schema_path?: string | string[];
     routing_url: string;
+    // the files which trigger the schema generation of code-first subgraphs
+    watch?: string[];
+    // the command which prints the SDL or writes it to schema_path
+    schema_command?: string;
+    // the feature subgraph is only published once the subgraph responds at its routing URL
+    readiness?: {
+      health_path?: string;
+      timeout_seconds?: number;
+    };
   }[];
 };
 
 export type FeatureFlag = {
   name: string;
   labels: string[];
+  // the subgraphs the feature flag covers, all subgraphs if neither this nor federated_graphs is set
+  subgraphs?: string[];
+  // the federated graphs whose subgraphs the feature flag covers
+  federated_graphs?: string[];
 };
 
 export type Subgraph = {
   name: string;
-  schemaPath: string;
+  // paths or glob patterns relative to the root of the repository
+  schemaPaths: string[];
+  watchPaths: string[];
+  schemaCommand?: string;
   routingUrl: string;
+  readiness?: SubgraphReadiness;
 };
 
-export type ActionType = 'create' | 'update' | 'destroy';
+export type SubgraphReadiness = {
+  // the path polled with a GET, relative to the routing URL. A `{ __typename }` query is sent if not set
+  healthPath?: string;
+  timeoutSeconds: number;
+};
 
-export type Inputs = {
-  cosmoApiKey: string;
-  githubToken: string;
-  actionType: ActionType;
+export type ActionType = 'create' | 'update' | 'destroy' | 'cleanup';
+
+export type PreviewCommandName = 'redeploy' | 'disable' | 'enable' | 'destroy';
+
+/**
+ * A `/cosmo-preview` command of a pull request comment.
+ */
+export type PreviewCommand = {
+  name: PreviewCommandName;
+  // the feature flag to enable or disable, all feature flags of the pull request if not set
+  featureFlag?: string;
+};
+
+export type PreviewConfig = {
   namespace: string;
+  triggerLabel?: string;
+  smokeTestsPath?: string;
   featureFlags: FeatureFlag[];
   subgraphs: Subgraph[];
+};
+
+export type Inputs = PreviewConfig & {
+  cosmoApiKey: string;
+  githubToken: string;
+  actionType: ActionType;
   configPath: string;
+  dryRun: boolean;
+  check: boolean;
+  blockOnBreakingChanges: boolean;
+  retry: RetryOptions;
+  maxConcurrency: number;
+  studioUrl: string;
+  routerUrl?: string;
+  // set if the run was triggered by a command in a pull request comment
+  command?: PreviewCommand;
+};
+
+export type RetryOptions = {
+  // the number of retries after the first attempt
+  retries: number;
+  // the delay before the first retry, doubled for every further retry
+  delayMs: number;
 };
 
 export type FeatureSubgraphsOutputConfig = {
@@ -36,4 +101,222 @@ export type FeatureSubgraphsOutputConfig = {
   schemaPath: string;
   routingUrl: string;
   baseSubgraphName: string;
+  // only set by destroy, false if the feature subgraph was found but could not be deleted
+  destroyed?: boolean;
+};
+
+export type ConfigDiff = {
+  namespaceChanged: boolean;
+  removedFeatureFlags: FeatureFlag[];
+  addedFeatureFlags: FeatureFlag[];
+  relabeledFeatureFlags: FeatureFlag[];
+  removedSubgraphs: Subgraph[];
+  addedSubgraphs: Subgraph[];
+};
+
+export type CosmoFeatureFlag = {
+  name: string;
+  namespace: string;
+  isEnabled: boolean;
+  labels: { key: string; value: string }[];
+};
+
+export type CosmoSubgraph = {
+  name: string;
+  namespace: string;
+  routingURL: string;
+  labels: { key: string; value: string }[];
+  isFeatureSubgraph?: boolean;
+};
+
+export type CosmoFederatedGraph = {
+  name: string;
+  namespace: string;
+  labelMatchers: string[];
+};
+
+export type PreviewResources = {
+  featureFlags: string[];
+  featureSubgraphs: {
+    featureSubgraphName: string;
+    baseSubgraphName: string;
+    routingUrl: string;
+  }[];
+};
+
+export type PullRequestState = 'open' | 'closed' | 'unknown';
+
+export type CleanupReportEntry = {
+  prNumber: number;
+  state: PullRequestState;
+  featureFlags: string[];
+  featureSubgraphs: string[];
+  deleted: boolean;
+};
+
+export type SchemaChange = {
+  message: string;
+  changeType: string;
+  path?: string;
+  isBreaking: boolean;
+};
+
+export type LintIssue = {
+  lintRuleType?: string;
+  severity: number;
+  message: string;
+  issueLocation?: {
+    line: number;
+    // wgc only prints the line of the issues
+    column?: number;
+    endLine?: number;
+    endColumn?: number;
+  };
+};
+
+export type CheckCompositionError = {
+  message: string;
+  federatedGraphName: string;
+  namespace: string;
+  featureFlag: string;
+};
+
+export type SubgraphCheckResult = {
+  subgraphName: string;
+  success: boolean;
+  message: string;
+  url?: string;
+  breakingChanges: SchemaChange[];
+  compositionErrors: CheckCompositionError[];
+  lintErrors: LintIssue[];
+  lintWarnings: LintIssue[];
+  // set when publishing the feature subgraph was skipped because of the check
+  blocked?: boolean;
+};
+
+/**
+ * A GraphQL operation run against the router, with the response it is expected to return, if it has a snapshot.
+ */
+export type SmokeTest = {
+  name: string;
+  query: string;
+  variables?: Record<string, unknown>;
+  expectedResponse?: unknown;
+};
+
+export type SmokeTestResult = {
+  featureFlagName: string;
+  name: string;
+  passed: boolean;
+  message?: string;
+  // the differences between the expected and the actual response, or the errors of the response
+  diff: string[];
+};
+
+export type PlanStep = {
+  operation: 'publish' | 'create' | 'update' | 'delete' | 'enable' | 'disable';
+  resourceType: 'feature-subgraph' | 'feature-flag';
+  name: string;
+  namespace: string;
+  baseSubgraphName?: string;
+  schemaPath?: string;
+  routingUrl?: string;
+  labels?: string[];
+  featureSubgraphs?: string[];
+};
+
+/**
+ * Everything a create, update or destroy would do, computed without running any mutation.
+ */
+export type Plan = {
+  actionType: ActionType;
+  changedFiles: {
+    file: string;
+    subgraphName?: string;
+  }[];
+  steps: PlanStep[];
+};
+
+/**
+ * The result of a command run against a resource.
+ */
+export type ResourceOutcome = Pick<PlanStep, 'operation' | 'resourceType' | 'name'> & {
+  success: boolean;
+  message?: string;
+};
+
+/**
+ * Everything a run did, collected for the job summary. The feature flag results are the ones the PR comment renders.
+ */
+export type RunReport = {
+  actionType: ActionType;
+  dryRun: boolean;
+  prNumber?: number;
+  changedFiles: Plan['changedFiles'];
+  outcomes: ResourceOutcome[];
+  deployedFeatureFlags: string[];
+  featureSubgraphsByFlag: Record<string, FeatureSubgraphsOutputConfig[]>;
+  skippedFeatureFlags: string[];
+  featureFlagErrorOutputs: Record<string, SubgraphCommandJsonOutput>;
+  checkResults: SubgraphCheckResult[];
+  featureSubgraphsToDeploy: FeatureSubgraphsOutputConfig[];
+  // the feature subgraphs which were not published, as their generated schema is identical to the base subgraph
+  unchangedFeatureSubgraphs: FeatureSubgraphsOutputConfig[];
+  destroyedFeatureSubgraphs: FeatureSubgraphsOutputConfig[];
+  // the feature subgraphs which were not published, as their subgraph didn't become ready in time
+  pendingFeatureSubgraphs: FeatureSubgraphsOutputConfig[];
+  smokeTestResults: SmokeTestResult[];
+  cleanupReport?: CleanupReportEntry[];
+  plan?: Plan;
+  // the message of the error the run failed with
+  error?: string;
+};
+
+export type PreviewStatus =
+  | 'deployed'
+  | 'smoke_tests_failed'
+  | 'partially_deployed'
+  | 'failed'
+  | 'blocked'
+  | 'pending'
+  | 'unchanged'
+  | 'destroyed'
+  | 'planned'
+  | 'skipped';
+
+export type FailedFeatureFlagOutput = {
+  name: string;
+  message: string;
+  errors: {
+    federatedGraphName: string;
+    message: string;
+  }[];
+};
+
+export type SubgraphsMatrix = {
+  include: {
+    subgraph: string;
+    feature_subgraph: string;
+    routing_url: string;
+    schema_path: string;
+    feature_flags: string[];
+  }[];
+};
+
+/**
+ * The `result` output, which combines the other outputs of a run.
+ */
+export type RunResult = {
+  // unset if the inputs are invalid
+  actionType?: ActionType;
+  status: PreviewStatus;
+  prNumber?: number;
+  deployedFeatureFlags: string[];
+  failedFeatureFlags: FailedFeatureFlagOutput[];
+  featureSubgraphsToDeploy: FeatureSubgraphsOutputConfig[];
+  featureSubgraphsToDestroy: FeatureSubgraphsOutputConfig[];
+  featureSubgraphsUnchanged: FeatureSubgraphsOutputConfig[];
+  featureSubgraphsPending: FeatureSubgraphsOutputConfig[];
+  smokeTestResults: SmokeTestResult[];
+  error?: string;
 };
@@ -1,102 +1,620 @@
 import * as github from '@actions/github';
 import { SubgraphCommandJsonOutput } from 'wgc/dist/core/types/types.js';
 import { Context } from '@actions/github/lib/context.js';
+import { createStudioLinks, featureFlagDocsUrl, StudioLinks } from './links.js';
+import { getOctokit } from './retry.js';
+import {
+  CleanupReportEntry,
+  ConfigDiff,
+  FeatureSubgraphsOutputConfig,
+  Plan,
+  PullRequestState,
+  RetryOptions,
+  SmokeTestResult,
+  SubgraphCheckResult,
+} from './types.js';
 
+const deploymentCommentMarker = '<!-- cosmo-previews:deployment -->';
+const configCommentMarker = '<!-- cosmo-previews:config -->';
+const planCommentMarker = '<!-- cosmo-previews:plan -->';
+const historyPattern = /<!-- cosmo-previews:history (.*) -->/;
+const maxHistoryEntries = 20;
+
+type Octokit = ReturnType<typeof getOctokit>;
+
+type DeploymentHistoryEntry = {
+  sha: string;
+  time: string;
+  result: string;
+  // whether every feature flag was deployed, i.e. the preview resources in Cosmo match the commit
+  deployed?: boolean;
+};
+
+// a comment which is already gone was deleted by a previous attempt
+const deleteComment = async ({
+  octokit,
+  context,
+  commentId,
+}: {
+  octokit: Octokit;
+  context: Context;
+  commentId: number;
+}) => {
+  try {
+    await octokit.rest.issues.deleteComment({
+      comment_id: commentId,
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+    });
+  } catch (error) {
+    if (!(error instanceof Error && 'status' in error && error.status === 404)) {
+      throw error;
+    }
+  }
+};
+
+// the token of the workflow and the ones of GitHub Apps can't read their own user, their comments are written by bots
+const getAuthenticatedLogin = async (octokit: Octokit): Promise<string | undefined> => {
+  try {
+    const { data } = await octokit.rest.users.getAuthenticated();
+    return data.login;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Returns the comments of the action which start with the marker. Comments of other users are never matched,
+ * even if they quote the marker, so they are neither updated nor deleted.
+ */
+const listMarkedComments = async ({
+  octokit,
+  context,
+  prNumber,
+  marker,
+}: {
+  octokit: Octokit;
+  context: Context;
+  prNumber: number;
+  marker: string;
+}) => {
+  const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+    owner: context.repo.owner,
+    repo: context.repo.repo,
+    issue_number: prNumber,
+    per_page: 100,
+  });
+  const markedComments = comments.filter((comment) => comment.body?.startsWith(marker));
+  if (markedComments.length === 0) {
+    return [];
+  }
+  const login = await getAuthenticatedLogin(octokit);
+  return markedComments.filter((comment) => (login ? comment.user?.login === login : comment.user?.type === 'Bot'));
+};
+
+/**
+ * Updates the comment with the marker in place, or creates it if the pull request doesn't have one yet.
+ * All the comments of the pull request are searched, as the marker doesn't depend on the heading of the comment.
+ * Duplicates, e.g. from runs which raced each other, are deleted.
+ */
+const upsertComment = async ({
+  octokit,
+  context,
+  prNumber,
+  marker,
+  render,
+}: {
+  octokit: Octokit;
+  context: Context;
+  prNumber: number;
+  marker: string;
+  render: (previousBody?: string) => string;
+}) => {
+  const [comment, ...duplicates] = await listMarkedComments({ octokit, context, prNumber, marker });
+  const body = `${marker}\n${render(comment?.body)}`;
+
+  if (comment) {
+    await octokit.rest.issues.updateComment({
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      comment_id: comment.id,
+      body,
+    });
+  } else {
+    await octokit.rest.issues.createComment({
+      owner: context.repo.owner,
+      repo: context.repo.repo,
+      issue_number: prNumber,
+      body,
+    });
+  }
+  for (const duplicate of duplicates) {
+    await deleteComment({ octokit, context, commentId: duplicate.id });
+  }
+};
+
+const parseHistory = (body?: string): DeploymentHistoryEntry[] => {
+  const match = body?.match(historyPattern);
+  if (!match) {
+    return [];
+  }
+  try {
+    const history: unknown = JSON.parse(match[1]);
+    return Array.isArray(history) ? history : [];
+  } catch {
+    return [];
+  }
+};
+
+const renderHistory = (history: DeploymentHistoryEntry[]): string => {
+  const marker = `<!-- cosmo-previews:history ${JSON.stringify(history)} -->`;
+  const previousEntries = history.slice(1);
+  if (previousEntries.length === 0) {
+    return marker;
+  }
+  const rows = previousEntries.map((entry) => `| ${entry.sha.slice(0, 7)} | ${entry.time} | ${entry.result} |`);
+  return `${marker}\n<details><summary>History of previous deployments (${previousEntries.length})</summary>\n\n| Commit | Time | Result |\n| --- | --- | --- |\n${rows.join('\n')}\n</details>`;
+};
+
+/**
+ * Returns the head commit of the last successful deployment recorded in the deployment comment of the pull request,
+ * or undefined if the previews of the pull request were never deployed successfully.
+ * Runs which failed, were blocked or left feature subgraphs pending are skipped, as Cosmo doesn't match their commit.
+ */
+export const getLastDeployedSha = async ({
+  githubToken,
+  prNumber,
+  context,
+  retry,
+}: {
+  githubToken: string;
+  prNumber: number;
+  context: Context;
+  retry?: RetryOptions;
+}): Promise<string | undefined> => {
+  const octokit = getOctokit({ githubToken, retry });
+  const [comment] = await listMarkedComments({ octokit, context, prNumber, marker: deploymentCommentMarker });
+  return parseHistory(comment?.body).find((entry) => entry.deployed)?.sha;
+};
+
+/**
+ * Creates or updates the deployment comment of the pull request. Previous deployments are kept in a collapsible history.
+ */
 export const addComment = async ({
   githubToken,
   prNumber,
   deployedFeatureFlags,
-  featureSubgraphs,
+  featureSubgraphsByFlag,
+  skippedFeatureFlags = [],
   featureFlagErrorOutputs,
+  checkResults = [],
+  pendingFeatureSubgraphs = [],
+  smokeTestResults = [],
   context,
   organizationSlug,
   namespace,
+  studioUrl,
+  routerUrl,
+  retry,
 }: {
   githubToken: string;
   prNumber: number;
   deployedFeatureFlags: string[];
-  featureSubgraphs: string[];
+  featureSubgraphsByFlag: Record<string, FeatureSubgraphsOutputConfig[]>;
+  skippedFeatureFlags?: string[];
   featureFlagErrorOutputs: {
     [key: string]: SubgraphCommandJsonOutput;
   };
+  checkResults?: SubgraphCheckResult[];
+  pendingFeatureSubgraphs?: FeatureSubgraphsOutputConfig[];
+  smokeTestResults?: SmokeTestResult[];
   context: Context;
   organizationSlug: string;
   namespace: string;
+  studioUrl: string;
+  routerUrl?: string;
+  retry?: RetryOptions;
 }) => {
-  const octokit = github.getOctokit(githubToken);
+  const octokit = getOctokit({ githubToken, retry });
+  const headSha: string = context.payload.pull_request?.head?.sha ?? context.sha;
+  const links = createStudioLinks({ studioUrl, organizationSlug, namespace });
 
-  const comments = await octokit.rest.issues.listComments({
-    owner: context.repo.owner,
-    repo: context.repo.repo,
-    issue_number: prNumber,
+  let deployedSection = renderDeployedFeatureFlags({
+    deployedFeatureFlags,
+    featureSubgraphsByFlag,
+    links,
+    routerUrl,
+    headSha,
   });
-
-  for (const comment of comments.data) {
-    if (
-      comment.body &&
-      (comment.body.startsWith('### 🚀  The following feature flags have been deployed:') ||
-        comment.body.startsWith('\n ### ❌ The following feature flags failed to deploy in these federated graphs:'))
-    ) {
-      await octokit.rest.issues.deleteComment({
-        comment_id: comment.id,
-        owner: context.repo.owner,
-        repo: context.repo.repo,
-      });
-    }
+  if (skippedFeatureFlags.length > 0) {
+    deployedSection += `\n\nSkipped feature flags, as none of the changed subgraphs are covered by them: ${skippedFeatureFlags.join(', ')}`;
   }
+  const checksSection = renderCheckResults(checkResults);
+  const failedFeatureFlags = Object.keys(featureFlagErrorOutputs);
 
-  // Generate Markdown table
-  const tableHeader = '| Feature Flag | Feature Subgraphs |\n| --- | --- |\n';
-  const tableBody = deployedFeatureFlags.map((name) => {
-    return `| [${name}](https://cosmo.wundergraph.com/${organizationSlug}/feature-flags/${name}?namespace=${namespace}) | ${featureSubgraphs.join(', ')} |`;
-  });
-  const markdownTable = `${tableHeader}${tableBody}`;
-
-  if (Object.keys(featureFlagErrorOutputs).length === 0) {
-    await octokit.rest.issues.createComment({
-      owner: context.repo.owner,
-      repo: context.repo.repo,
-      issue_number: prNumber,
-      body: `### 🚀  The following feature flags have been deployed: \n${markdownTable} \n #### To query any of these feature flags, pass the feature flag name to the 'X-Feature-Flag' header when making a request. Refer to the [documentation](https://cosmo-docs.wundergraph.com/tutorial/gradual-and-experimental-feature-rollout-with-feature-flags#using-cosmo-router-to-serve-the-feature-flag-to-clients) for more information.`,
-    });
+  let body = '';
+  let result = '';
+  if (deployedFeatureFlags.length === 0 && failedFeatureFlags.length === 0) {
+    // nothing was published, e.g. because every changed subgraph was blocked by its check
+    // or none of the feature flags cover the changed subgraphs
+    body =
+      checksSection ||
+      (pendingFeatureSubgraphs.length > 0
+        ? ''
+        : skippedFeatureFlags.length > 0
+          ? `### 🚀  The following feature flags have been deployed: \nNone, as none of the changed subgraphs are covered by the feature flags ${skippedFeatureFlags.join(', ')}.`
+          : '### 🚀  No feature flags have been deployed.');
+    result = checkResults.some((checkResult) => checkResult.blocked)
+      ? '⛔ Not published'
+      : pendingFeatureSubgraphs.length > 0
+        ? '⏳ Pending'
+        : '⏭️ Nothing deployed';
+  } else if (failedFeatureFlags.length === 0) {
+    body = `${deployedSection}${checksSection ? `\n${checksSection}` : ''}`;
+    result = `✅ ${deployedFeatureFlags.length} deployed`;
   } else {
-    let body = '';
     if (deployedFeatureFlags.length > 0) {
-      body = `### 🚀  The following feature flags have been deployed: \n${markdownTable} \n #### To query any of these feature flags, pass the feature flag name to the 'X-Feature-Flag' header when making a request.  Refer to the [documentation](https://cosmo-docs.wundergraph.com/tutorial/gradual-and-experimental-feature-rollout-with-feature-flags#using-cosmo-router-to-serve-the-feature-flag-to-clients) for more information.`;
+      body = deployedSection;
     }
-    const failedFeatureFlags = Object.keys(featureFlagErrorOutputs);
     const failedFFTableHeader = '| Feature Flag | Federated Graph | Error |\n| --- | --- | --- |\n';
     const failedFFTableBody = failedFeatureFlags.map((name) => {
       if (featureFlagErrorOutputs[name].compositionErrors.length > 0) {
         const compositionErrors = featureFlagErrorOutputs[name].compositionErrors;
         const compositionError = compositionErrors.find((error) => error.featureFlag === name);
         if (compositionError) {
-          return `| [${name}](https://cosmo.wundergraph.com/${organizationSlug}/feature-flags/${name}?namespace=${namespace}) | ${compositionError.federatedGraphName} | ${compositionError.message.replaceAll('\n', '<br>')} |`;
+          return `| [${name}](${links.featureFlag(name)}) | [${compositionError.federatedGraphName}](${links.compositions(compositionError.federatedGraphName)}) | ${compositionError.message.replaceAll('\n', '<br>')} |`;
         } else {
-          const federatedGraphNames = [...new Set(compositionErrors.map((error) => error.federatedGraphName))];
-          return `| [${name}](https://cosmo.wundergraph.com/${organizationSlug}/feature-flags/${name}?namespace=${namespace}) | ${federatedGraphNames.join(',')} | ${featureFlagErrorOutputs[name].message}. Please check the compositions page of the respective federated graphs for more details. |`;
+          const federatedGraphNames = [...new Set<string>(compositionErrors.map((error) => error.federatedGraphName))];
+          return `| [${name}](${links.featureFlag(name)}) | ${federatedGraphNames.map((graphName) => `[${graphName}](${links.compositions(graphName)})`).join(', ')} | ${featureFlagErrorOutputs[name].message}. Please check the compositions page of the respective federated graphs for more details. |`;
         }
       } else if (featureFlagErrorOutputs[name].deploymentErrors.length > 0) {
         const deploymentErrors = featureFlagErrorOutputs[name].deploymentErrors;
         const deploymentError = deploymentErrors.find((error) => error.featureFlag === name);
         if (deploymentError) {
-          return `| [${name}](https://cosmo.wundergraph.com/${organizationSlug}/feature-flags/${name}?namespace=${namespace}) | ${deploymentError.federatedGraphName} | ${deploymentError.message.replaceAll('\n', '<br>')} |`;
+          return `| [${name}](${links.featureFlag(name)}) | [${deploymentError.federatedGraphName}](${links.compositions(deploymentError.federatedGraphName)}) | ${deploymentError.message.replaceAll('\n', '<br>')} |`;
         } else {
-          const federatedGraphNames = [...new Set(deploymentErrors.map((error) => error.federatedGraphName))];
-          return `| [${name}](https://cosmo.wundergraph.com/${organizationSlug}/feature-flags/${name}?namespace=${namespace}) | ${federatedGraphNames.join(',')} | ${featureFlagErrorOutputs[name].message}. Please check the compositions page of the respective federated graphs for more details. |`;
+          const federatedGraphNames = [...new Set<string>(deploymentErrors.map((error) => error.federatedGraphName))];
+          return `| [${name}](${links.featureFlag(name)}) | ${federatedGraphNames.map((graphName) => `[${graphName}](${links.compositions(graphName)})`).join(', ')} | ${featureFlagErrorOutputs[name].message}. Please check the compositions page of the respective federated graphs for more details. |`;
         }
       } else {
-        return `| [${name}](https://cosmo.wundergraph.com/${organizationSlug}/feature-flags/${name}?namespace=${namespace}) | - | ${featureFlagErrorOutputs[name].message} |`;
+        return `| [${name}](${links.featureFlag(name)}) | - | ${featureFlagErrorOutputs[name].message} |`;
       }
     });
-    const failedFFMarkdownTable = `${failedFFTableHeader}${failedFFTableBody}`;
+    const failedFFMarkdownTable = `${failedFFTableHeader}${failedFFTableBody.join('\n')}`;
     body += `\n ### ❌ The following feature flags failed to deploy in these federated graphs: \n ${failedFFMarkdownTable}`;
+    if (checksSection) {
+      body += `\n${checksSection}`;
+    }
+    result = `❌ ${failedFeatureFlags.length} failed, ${deployedFeatureFlags.length} deployed`;
+  }
 
-    await octokit.rest.issues.createComment({
-      owner: context.repo.owner,
-      repo: context.repo.repo,
-      issue_number: prNumber,
-      body,
+  const pendingSection = renderPendingFeatureSubgraphs(pendingFeatureSubgraphs);
+  if (pendingSection) {
+    body += `\n${pendingSection}`;
+  }
+  const smokeTestsSection = renderSmokeTestResults(smokeTestResults);
+  if (smokeTestsSection) {
+    body += `\n${smokeTestsSection}`;
+    const failedCount = smokeTestResults.filter((smokeTestResult) => !smokeTestResult.passed).length;
+    result += failedCount > 0 ? `, ❌ ${failedCount} smoke tests failed` : ', ✅ smoke tests passed';
+  }
+
+  const entry: DeploymentHistoryEntry = {
+    sha: headSha,
+    time: new Date().toISOString(),
+    result,
+    deployed:
+      failedFeatureFlags.length === 0 &&
+      !checkResults.some((checkResult) => checkResult.blocked) &&
+      pendingFeatureSubgraphs.length === 0,
+  };
+  await upsertComment({
+    octokit,
+    context,
+    prNumber,
+    marker: deploymentCommentMarker,
+    render: (previousBody) => {
+      const history = [entry, ...parseHistory(previousBody)].slice(0, maxHistoryEntries);
+      return `${body}\n\n${renderHistory(history)}`;
+    },
+  });
+};
+
+const renderExampleRequest = ({ featureFlagName, routerUrl }: { featureFlagName: string; routerUrl?: string }) => {
+  return [
+    '<details><summary>Example request</summary>',
+    '',
+    '```sh',
+    `curl '${routerUrl ?? '<router-url>'}' \\`,
+    `  -H 'Content-Type: application/json' \\`,
+    `  -H 'X-Feature-Flag: ${featureFlagName}' \\`,
+    `  --data '{"query":"{ __typename }"}'`,
+    '```',
+    '',
+    'Headers for the GraphQL playground:',
+    '',
+    '```json',
+    `{ "X-Feature-Flag": "${featureFlagName}" }`,
+    '```',
+    '</details>',
+  ].join('\n');
+};
+
+/**
+ * Renders a section per deployed feature flag, with the base subgraph each feature subgraph replaces,
+ * the routing URL it points at and a request which can be sent to the router as is.
+ */
+const renderDeployedFeatureFlags = ({
+  deployedFeatureFlags,
+  featureSubgraphsByFlag,
+  links,
+  routerUrl,
+  headSha,
+}: {
+  deployedFeatureFlags: string[];
+  featureSubgraphsByFlag: Record<string, FeatureSubgraphsOutputConfig[]>;
+  links: StudioLinks;
+  routerUrl?: string;
+  headSha: string;
+}): string => {
+  const sections = deployedFeatureFlags.map((name) => {
+    const rows = (featureSubgraphsByFlag[name] ?? []).map(
+      (featureSubgraph) =>
+        `| [${featureSubgraph.baseSubgraphName}](${links.subgraph(featureSubgraph.baseSubgraphName)}) | [${featureSubgraph.featureSubgraphName}](${links.subgraph(featureSubgraph.featureSubgraphName)}) | ${featureSubgraph.routingUrl} |`,
+    );
+    return [
+      `#### [${name}](${links.featureFlag(name)})`,
+      '| Base Subgraph | Feature Subgraph | Routing URL |',
+      '| --- | --- | --- |',
+      ...rows,
+      '',
+      renderExampleRequest({ featureFlagName: name, routerUrl }),
+    ].join('\n');
+  });
+
+  return [
+    '### 🚀  The following feature flags have been deployed:',
+    `Deployed from commit ${headSha}.`,
+    '',
+    sections.join('\n\n'),
+    '',
+    `To query any of these feature flags, pass the feature flag name in the 'X-Feature-Flag' header when making a request to the router. Refer to the [documentation](${featureFlagDocsUrl}) for more information.`,
+  ].join('\n');
+};
+
+export const renderCheckResults = (checkResults: SubgraphCheckResult[]): string => {
+  if (checkResults.length === 0) {
+    return '';
+  }
+
+  const tableHeader =
+    '| Subgraph | Breaking Changes | Composition Errors | Lint Issues | Result |\n| --- | --- | --- | --- | --- |\n';
+  const tableBody = checkResults.map((result) => {
+    const name = result.url ? `[${result.subgraphName}](${result.url})` : result.subgraphName;
+    const lintIssues = `${result.lintErrors.length} errors, ${result.lintWarnings.length} warnings`;
+    const status = result.blocked ? '⛔ Not published' : result.success ? '✅ Passed' : '❌ Failed';
+    return `| ${name} | ${result.breakingChanges.length} | ${result.compositionErrors.length} | ${lintIssues} | ${status} |`;
+  });
+
+  const details = checkResults.map((result) => {
+    const lines: string[] = [
+      ...result.breakingChanges.map(
+        (change) => `- Breaking change${change.path ? ` at \`${change.path}\`` : ''}: ${change.message}`,
+      ),
+      ...result.compositionErrors.map(
+        (error) => `- Composition error in ${error.federatedGraphName}: ${error.message.replaceAll('\n', ' ')}`,
+      ),
+      ...[...result.lintErrors, ...result.lintWarnings].map((issue) => {
+        const { line, column } = issue.issueLocation ?? {};
+        const location = line ? ` (${[line, column].filter(Boolean).join(':')})` : '';
+        return `- Lint ${issue.severity === 1 ? 'error' : 'warning'}${location}: ${issue.message}`;
+      }),
+    ];
+    if (lines.length === 0) {
+      return '';
+    }
+    return `\n<details><summary>Issues found in ${result.subgraphName}</summary>\n\n${lines.join('\n')}\n</details>\n`;
+  });
+
+  return `### 🔍 The following subgraphs have been checked: \n${tableHeader}${tableBody.join('\n')}\n${details.join('')}`;
+};
+
+/**
+ * Renders the feature subgraphs which are pending, as their subgraph didn't respond at its routing URL in time.
+ */
+export const renderPendingFeatureSubgraphs = (pendingFeatureSubgraphs: FeatureSubgraphsOutputConfig[]): string => {
+  if (pendingFeatureSubgraphs.length === 0) {
+    return '';
+  }
+
+  const tableHeader = '| Subgraph | Feature Subgraph | Routing URL |\n| --- | --- | --- |\n';
+  const tableBody = pendingFeatureSubgraphs.map(
+    (featureSubgraph) =>
+      `| ${featureSubgraph.baseSubgraphName} | ${featureSubgraph.featureSubgraphName} | ${featureSubgraph.routingUrl} |`,
+  );
+  return `### ⏳ The following feature subgraphs are pending, as their subgraphs are not ready yet: \n${tableHeader}${tableBody.join('\n')}\n\nThey are published by the next run once the subgraphs respond at their routing URLs.`;
+};
+
+/**
+ * Renders a row per smoke test and feature flag, with the differences of the failed smoke tests in collapsible details.
+ */
+export const renderSmokeTestResults = (smokeTestResults: SmokeTestResult[]): string => {
+  if (smokeTestResults.length === 0) {
+    return '';
+  }
+
+  const tableHeader = '| Feature Flag | Operation | Result |\n| --- | --- | --- |\n';
+  const tableBody = smokeTestResults.map(
+    (result) =>
+      `| ${result.featureFlagName} | ${result.name} | ${result.passed ? '✅ Passed' : `❌ ${result.message?.replaceAll('\n', '<br>') ?? 'Failed'}`} |`,
+  );
+  const details = smokeTestResults
+    .filter((result) => !result.passed && result.diff.length > 0)
+    .map(
+      (result) =>
+        `\n<details><summary>Differences of ${result.name} with ${result.featureFlagName}</summary>\n\n\`\`\`diff\n${result.diff.map((line) => `- ${line}`).join('\n')}\n\`\`\`\n</details>\n`,
+    );
+
+  return `### 🧪 The following smoke tests have been run against the router: \n${tableHeader}${tableBody.join('\n')}\n${details.join('')}`;
+};
+
+export const getPullRequestState = async ({
+  githubToken,
+  prNumber,
+  retry,
+}: {
+  githubToken: string;
+  prNumber: number;
+  retry?: RetryOptions;
+}): Promise<PullRequestState> => {
+  const octokit = getOctokit({ githubToken, retry });
+
+  try {
+    const pullRequest = await octokit.rest.pulls.get({
+      owner: github.context.repo.owner,
+      repo: github.context.repo.repo,
+      pull_number: prNumber,
     });
+    return pullRequest.data.state === 'closed' ? 'closed' : 'open';
+  } catch (error) {
+    if (error instanceof Error && 'status' in error && error.status === 404) {
+      return 'unknown';
+    }
+    throw error;
+  }
+};
+
+export const renderCleanupReport = ({ report, dryRun }: { report: CleanupReportEntry[]; dryRun: boolean }) => {
+  if (report.length === 0) {
+    return 'No preview resources found in the namespace.';
   }
+
+  const lines = [dryRun ? 'Cleanup report (dry run, nothing was deleted):' : 'Cleanup report:'];
+  for (const entry of report) {
+    let action = 'kept';
+    if (entry.state === 'closed') {
+      action = entry.deleted ? 'deleted' : 'would be deleted';
+    }
+    lines.push(
+      `  #${entry.prNumber} (${entry.state}): ${action}`,
+      `    feature flags: ${entry.featureFlags.join(', ') || '-'}`,
+      `    feature subgraphs: ${entry.featureSubgraphs.join(', ') || '-'}`,
+    );
+  }
+  return lines.join('\n');
+};
+
+const planCommentHeading = '### 📋 Cosmo Previews plan (dry run)';
+
+export const renderPlan = (plan: Plan, { markdown = false }: { markdown?: boolean } = {}): string => {
+  const changedFileRows = plan.changedFiles.map((changedFile) => [
+    changedFile.file,
+    changedFile.subgraphName ?? 'no matching subgraph',
+  ]);
+  const stepRows = plan.steps.map((step) => {
+    const details = [
+      step.baseSubgraphName ? `subgraph: ${step.baseSubgraphName}` : '',
+      step.routingUrl ? `routing URL: ${step.routingUrl}` : '',
+      step.labels ? `labels: ${step.labels.join(' ')}` : '',
+      step.featureSubgraphs ? `feature subgraphs: ${step.featureSubgraphs.join(' ')}` : '',
+    ].filter(Boolean);
+    return [step.operation, step.resourceType, step.name, step.namespace, details.join(', ') || '-'];
+  });
+
+  if (markdown) {
+    const renderTable = (header: string[], rows: string[][]) =>
+      [
+        `| ${header.join(' | ')} |`,
+        `| ${header.map(() => '---').join(' | ')} |`,
+        ...rows.map((row) => `| ${row.join(' | ')} |`),
+      ].join('\n');
+    return [
+      `${planCommentHeading} \n`,
+      '#### Changed schema files',
+      changedFileRows.length > 0 ? renderTable(['File', 'Subgraph'], changedFileRows) : 'No changed schema files.',
+      '',
+      `#### Planned changes for ${plan.actionType}`,
+      stepRows.length > 0
+        ? renderTable(['Operation', 'Resource', 'Name', 'Namespace', 'Details'], stepRows)
+        : 'No changes.',
+    ].join('\n');
+  }
+
+  const lines = [`Plan for ${plan.actionType} (dry run, nothing was changed):`, '  Changed schema files:'];
+  lines.push(...(changedFileRows.length > 0 ? changedFileRows.map((row) => `    ${row[0]} -> ${row[1]}`) : ['    -']));
+  lines.push('  Planned changes:');
+  lines.push(
+    ...(stepRows.length > 0 ? stepRows.map((row) => `    ${row.slice(0, 4).join(' ')} (${row[4]})`) : ['    -']),
+  );
+  return lines.join('\n');
+};
+
+export const addPlanComment = async ({
+  githubToken,
+  prNumber,
+  plan,
+  context,
+  retry,
+}: {
+  githubToken: string;
+  prNumber: number;
+  plan: Plan;
+  context: Context;
+  retry?: RetryOptions;
+}) => {
+  const octokit = getOctokit({ githubToken, retry });
+
+  await upsertComment({
+    octokit,
+    context,
+    prNumber,
+    marker: planCommentMarker,
+    render: () => renderPlan(plan, { markdown: true }),
+  });
+};
+
+/**
+ * Creates or updates the comment which tells that the preview resources were reconciled with a changed config.
+ * It has its own marker, so that it is kept next to the deployment comment.
+ */
+export const addConfigComment = async ({
+  githubToken,
+  prNumber,
+  diff,
+  context,
+  retry,
+}: {
+  githubToken: string;
+  prNumber: number;
+  diff: ConfigDiff;
+  context: Context;
+  retry?: RetryOptions;
+}) => {
+  const octokit = getOctokit({ githubToken, retry });
+  const headSha: string = context.payload.pull_request?.head?.sha ?? context.sha;
+
+  const lines = [
+    diff.namespaceChanged ? '- The namespace has changed, the previews were moved to the new namespace.' : '',
+    ...diff.removedFeatureFlags.map(
+      (featureFlag) => `- The feature flag \`${featureFlag.name}\` was removed, its preview was deleted.`,
+    ),
+    ...diff.relabeledFeatureFlags.map(
+      (featureFlag) =>
+        `- The labels of the feature flag \`${featureFlag.name}\` were updated to ${featureFlag.labels.map((label) => `\`${label}\``).join(', ')}.`,
+    ),
+    ...diff.addedFeatureFlags.map((featureFlag) => `- The feature flag \`${featureFlag.name}\` was added.`),
+    ...diff.removedSubgraphs.map(
+      (subgraph) => `- The subgraph \`${subgraph.name}\` was removed, its feature subgraph was deleted.`,
+    ),
+    ...diff.addedSubgraphs.map((subgraph) => `- The subgraph \`${subgraph.name}\` was added.`),
+  ].filter(Boolean);
+
+  await upsertComment({
+    octokit,
+    context,
+    prNumber,
+    marker: configCommentMarker,
+    render: () =>
+      `### ⚙️ The Cosmo config file has changed\nThe previews of this pull request were reconciled with the config of commit ${headSha.slice(0, 7)}:\n${lines.join('\n')}`,
+  });
 };
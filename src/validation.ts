@@ -0,0 +1,367 @@
+import { existsSync } from 'node:fs';
+import * as yaml from 'js-yaml';
+import mm from 'micromatch';
+import { resolve } from 'pathe';
+import { findSchemaFiles, toRepositoryPath } from './schemas.js';
+import { findUnknownPlaceholders, supportedPlaceholders } from './templating.js';
+import { Config } from './types.js';
+
+export const supportedConfigVersions = ['0.0.1'];
+
+export type ConfigIssue = {
+  path: string;
+  message: string;
+  line: number;
+  column: number;
+};
+
+type YamlNode = {
+  kind: string | null;
+  result: unknown;
+  line: number;
+  column: number;
+  children: YamlNode[];
+};
+
+type PathSegment = string | number;
+
+/**
+ * Loads the yaml document and records the position of every node, so that problems can be reported
+ * with their line and column. The children of a mapping are its keys and values, alternating.
+ */
+const loadWithPositions = (fileContent: string): { data: unknown; root?: YamlNode } => {
+  const stack: YamlNode[] = [{ kind: null, result: undefined, line: 0, column: 0, children: [] }];
+  const data = yaml.load(fileContent, {
+    listener(eventType, state) {
+      if (eventType === 'open') {
+        stack.push({
+          kind: null,
+          result: undefined,
+          line: state.line,
+          column: state.position - state.lineStart,
+          children: [],
+        });
+        return;
+      }
+      const node = stack.pop()!;
+      node.kind = state.kind;
+      node.result = state.result;
+      stack.at(-1)!.children.push(node);
+    },
+  });
+  return { data, root: stack[0].children[0] };
+};
+
+// js-yaml wraps some nodes, e.g. the items of block sequences, in a node with the same value
+const unwrap = (node: YamlNode): YamlNode => {
+  while (node.children.length === 1 && node.children[0].result === node.result) {
+    node = node.children[0];
+  }
+  return node;
+};
+
+/**
+ * Returns the position of the node at the path, or of its closest existing ancestor.
+ * For mapping entries, the position of the key is returned.
+ */
+const findPosition = (root: YamlNode | undefined, path: PathSegment[]): { line: number; column: number } => {
+  if (!root) {
+    return { line: 1, column: 1 };
+  }
+  let node = root;
+  let position = root;
+  for (const segment of path) {
+    node = unwrap(node);
+    if (typeof segment === 'number') {
+      const child = node.kind === 'sequence' ? node.children[segment] : undefined;
+      if (!child) {
+        break;
+      }
+      node = child;
+      position = child;
+    } else {
+      if (node.kind !== 'mapping') {
+        break;
+      }
+      const index = node.children.findIndex((child, i) => i % 2 === 0 && child.result === segment);
+      if (index === -1 || !node.children[index + 1]) {
+        break;
+      }
+      position = node.children[index];
+      node = node.children[index + 1];
+    }
+  }
+  return { line: position.line + 1, column: position.column + 1 };
+};
+
+const formatPath = (path: PathSegment[]): string => {
+  let formatted = '';
+  for (const segment of path) {
+    if (typeof segment === 'number') {
+      formatted += `[${segment}]`;
+    } else {
+      formatted += formatted ? `.${segment}` : segment;
+    }
+  }
+  return formatted;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isNonEmptyString = (value: unknown): value is string => {
+  return typeof value === 'string' && value.trim().length > 0;
+};
+
+const normalizeKey = (key: string) => key.toLowerCase().replaceAll(/[_-]/g, '');
+
+/**
+ * Validates the content of a cosmo.yaml file and returns every problem found, with its position in the file.
+ * The file existence of the schema paths is only checked when `checkFiles` is set, as older versions of the config
+ * can reference files which no longer exist.
+ */
+export const validateConfig = ({
+  fileContent,
+  checkFiles = true,
+}: {
+  fileContent: string;
+  checkFiles?: boolean;
+}): { config?: Config; issues: ConfigIssue[] } => {
+  let loaded: { data: unknown; root?: YamlNode };
+  try {
+    loaded = loadWithPositions(fileContent);
+  } catch (error) {
+    if (error instanceof yaml.YAMLException) {
+      return {
+        issues: [
+          {
+            path: '',
+            message: error.reason,
+            line: error.mark.line + 1,
+            column: error.mark.column + 1,
+          },
+        ],
+      };
+    }
+    throw error;
+  }
+
+  const { data, root } = loaded;
+  const issues: ConfigIssue[] = [];
+  const report = (path: PathSegment[], message: string) => {
+    issues.push({ path: formatPath(path), message, ...findPosition(root, path) });
+  };
+
+  const checkUnknownKeys = (value: Record<string, unknown>, allowedKeys: string[], path: PathSegment[]) => {
+    for (const key of Object.keys(value)) {
+      if (allowedKeys.includes(key)) {
+        continue;
+      }
+      const suggestion = allowedKeys.find((allowedKey) => normalizeKey(allowedKey) === normalizeKey(key));
+      report([...path, key], `Unknown property '${key}'.${suggestion ? ` Did you mean '${suggestion}'?` : ''}`);
+    }
+  };
+
+  if (!isRecord(data)) {
+    report([], 'The config must be a mapping.');
+    return { issues };
+  }
+
+  checkUnknownKeys(data, ['version', 'namespace', 'trigger_label', 'smoke_tests', 'feature_flags', 'subgraphs'], []);
+
+  if (data.version === undefined) {
+    report([], `'version' is required. Supported versions: ${supportedConfigVersions.join(', ')}.`);
+  } else if (!supportedConfigVersions.includes(String(data.version))) {
+    report(
+      ['version'],
+      `Unsupported version '${String(data.version)}'. Supported versions: ${supportedConfigVersions.join(', ')}.`,
+    );
+  }
+
+  if (!isNonEmptyString(data.namespace)) {
+    report(
+      data.namespace === undefined ? [] : ['namespace'],
+      `'namespace' is required and must be a non-empty string.`,
+    );
+  }
+
+  if (data.trigger_label !== undefined && !isNonEmptyString(data.trigger_label)) {
+    report(['trigger_label'], `'trigger_label' must be a non-empty string.`);
+  }
+
+  if (data.smoke_tests !== undefined) {
+    if (isRecord(data.smoke_tests)) {
+      checkUnknownKeys(data.smoke_tests, ['path'], ['smoke_tests']);
+      if (!isNonEmptyString(data.smoke_tests.path)) {
+        report(
+          data.smoke_tests.path === undefined ? ['smoke_tests'] : ['smoke_tests', 'path'],
+          `'path' is required and must be a non-empty string.`,
+        );
+      } else if (checkFiles && !existsSync(resolve(process.cwd(), data.smoke_tests.path))) {
+        report(['smoke_tests', 'path'], `The smoke tests directory '${data.smoke_tests.path}' does not exist.`);
+      }
+    } else {
+      report(['smoke_tests'], `'smoke_tests' must be a mapping with a path.`);
+    }
+  }
+
+  if (!Array.isArray(data.feature_flags) || data.feature_flags.length === 0) {
+    report(
+      data.feature_flags === undefined ? [] : ['feature_flags'],
+      `'feature_flags' must be a list with at least one feature flag.`,
+    );
+  } else {
+    const names = new Set<string>();
+    for (const [index, featureFlag] of data.feature_flags.entries()) {
+      const path = ['feature_flags', index];
+      if (!isRecord(featureFlag)) {
+        report(path, 'A feature flag must be a mapping with a name and labels.');
+        continue;
+      }
+      checkUnknownKeys(featureFlag, ['name', 'labels', 'subgraphs', 'federated_graphs'], path);
+      if (!isNonEmptyString(featureFlag.name)) {
+        report(path, `'name' is required and must be a non-empty string.`);
+      } else if (names.has(featureFlag.name)) {
+        report([...path, 'name'], `Duplicate feature flag name '${featureFlag.name}'.`);
+      } else {
+        names.add(featureFlag.name);
+      }
+      if (!Array.isArray(featureFlag.labels) || featureFlag.labels.length === 0) {
+        report(
+          featureFlag.labels === undefined ? path : [...path, 'labels'],
+          `'labels' must be a list with at least one label.`,
+        );
+      } else {
+        for (const [labelIndex, label] of featureFlag.labels.entries()) {
+          if (typeof label !== 'string' || !/^[^\s=]+=[^\s=]+$/.test(label)) {
+            report([...path, 'labels', labelIndex], `Label '${String(label)}' must be in the format <key>=<value>.`);
+          }
+        }
+      }
+      for (const key of ['subgraphs', 'federated_graphs']) {
+        const value = featureFlag[key];
+        if (value === undefined) {
+          continue;
+        }
+        if (!Array.isArray(value) || value.length === 0) {
+          report([...path, key], `'${key}' must be a list with at least one name.`);
+          continue;
+        }
+        for (const [nameIndex, name] of value.entries()) {
+          if (!isNonEmptyString(name)) {
+            report([...path, key, nameIndex], `'${key}' must only contain non-empty strings.`);
+          } else if (
+            key === 'subgraphs' &&
+            Array.isArray(data.subgraphs) &&
+            !data.subgraphs.some((subgraph) => isRecord(subgraph) && subgraph.name === name)
+          ) {
+            report([...path, key, nameIndex], `The subgraph '${name}' is not defined in 'subgraphs'.`);
+          }
+        }
+      }
+    }
+  }
+
+  if (!Array.isArray(data.subgraphs) || data.subgraphs.length === 0) {
+    report(data.subgraphs === undefined ? [] : ['subgraphs'], `'subgraphs' must be a list with at least one subgraph.`);
+  } else {
+    const names = new Set<string>();
+    for (const [index, subgraph] of data.subgraphs.entries()) {
+      const path = ['subgraphs', index];
+      if (!isRecord(subgraph)) {
+        report(path, 'A subgraph must be a mapping with a name, schema_path and routing_url.');
+        continue;
+      }
+      checkUnknownKeys(subgraph, ['name', 'schema_path', 'routing_url', 'watch', 'schema_command', 'readiness'], path);
+      if (!isNonEmptyString(subgraph.name)) {
+        report(path, `'name' is required and must be a non-empty string.`);
+      } else if (names.has(subgraph.name)) {
+        report([...path, 'name'], `Duplicate subgraph name '${subgraph.name}'.`);
+      } else {
+        names.add(subgraph.name);
+      }
+      const isCodeFirst = subgraph.schema_command !== undefined || subgraph.watch !== undefined;
+      if (isCodeFirst) {
+        if (!isNonEmptyString(subgraph.schema_command)) {
+          report(
+            subgraph.schema_command === undefined ? path : [...path, 'schema_command'],
+            `'schema_command' is required with 'watch' and must be a non-empty string.`,
+          );
+        }
+        if (
+          !Array.isArray(subgraph.watch) ||
+          subgraph.watch.length === 0 ||
+          !subgraph.watch.every((watchPath) => isNonEmptyString(watchPath))
+        ) {
+          report(
+            subgraph.watch === undefined ? path : [...path, 'watch'],
+            `'watch' is required with 'schema_command' and must be a list of paths or glob patterns.`,
+          );
+        }
+      }
+
+      const schemaPaths = [subgraph.schema_path].flat();
+      if (isCodeFirst && subgraph.schema_path === undefined) {
+        // the schema is printed by the schema command
+      } else if (schemaPaths.length === 0 || !schemaPaths.every((schemaPath) => isNonEmptyString(schemaPath))) {
+        report(
+          subgraph.schema_path === undefined ? path : [...path, 'schema_path'],
+          `'schema_path' is required and must be a non-empty string or a list of them.`,
+        );
+      } else if (checkFiles && !isCodeFirst) {
+        for (const [schemaPathIndex, schemaPath] of (schemaPaths as string[]).entries()) {
+          const schemaPathPath = Array.isArray(subgraph.schema_path)
+            ? [...path, 'schema_path', schemaPathIndex]
+            : [...path, 'schema_path'];
+          if (mm.scan(schemaPath).isGlob) {
+            if (findSchemaFiles([toRepositoryPath(schemaPath)]).length === 0) {
+              report(schemaPathPath, `No schema files match the pattern '${schemaPath}'.`);
+            }
+          } else if (!existsSync(resolve(process.cwd(), schemaPath))) {
+            report(schemaPathPath, `The schema file '${schemaPath}' does not exist.`);
+          }
+        }
+      }
+      if (isNonEmptyString(subgraph.routing_url)) {
+        for (const placeholder of findUnknownPlaceholders(subgraph.routing_url)) {
+          report(
+            [...path, 'routing_url'],
+            `Unknown placeholder '\${${placeholder}}'. Supported placeholders: ${supportedPlaceholders.map((name) => `\${${name}}`).join(', ')}, \${env.NAME}.`,
+          );
+        }
+      } else {
+        report(path, `'routing_url' is required and must be a non-empty string.`);
+      }
+
+      if (subgraph.readiness !== undefined) {
+        const readinessPath = [...path, 'readiness'];
+        if (isRecord(subgraph.readiness)) {
+          checkUnknownKeys(subgraph.readiness, ['health_path', 'timeout_seconds'], readinessPath);
+          const { health_path: healthPath, timeout_seconds: timeoutSeconds } = subgraph.readiness;
+          if (healthPath !== undefined && !isNonEmptyString(healthPath)) {
+            report([...readinessPath, 'health_path'], `'health_path' must be a non-empty string.`);
+          }
+          if (timeoutSeconds !== undefined && (typeof timeoutSeconds !== 'number' || timeoutSeconds <= 0)) {
+            report([...readinessPath, 'timeout_seconds'], `'timeout_seconds' must be a positive number.`);
+          }
+        } else {
+          report(readinessPath, `'readiness' must be a mapping, e.g. with a health_path and timeout_seconds.`);
+        }
+      }
+    }
+  }
+
+  if (issues.length > 0) {
+    return { issues };
+  }
+  return { config: data as Config, issues };
+};
+
+export const formatConfigIssues = ({ source, issues }: { source: string; issues: ConfigIssue[] }): string => {
+  const lines = issues.map((issue) => {
+    const path = issue.path ? `${issue.path}: ` : '';
+    return `  - ${source}:${issue.line}:${issue.column} ${path}${issue.message}`;
+  });
+  return `The config file '${source}' is invalid:\n${lines.join('\n')}`;
+};